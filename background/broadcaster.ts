@@ -0,0 +1,206 @@
+import { Storage } from "@plasmohq/storage"
+
+import { AUTHOR_LISTS_STORAGE_KEY } from "~lib/author-lists"
+import { FILTER_MODE_STORAGE_KEY } from "~lib/filter-mode"
+import { FILTER_RULES_STORAGE_KEY } from "~lib/filter-rules"
+import { PROVIDER_OPTIONS, PROVIDER_STORAGE_KEY } from "~lib/llm-settings"
+import {
+  PROTOCOL_VERSION,
+  type BackgroundMessage,
+  type ContentAction,
+  type ContentActionMap,
+  type DeliveryReport
+} from "~lib/messages"
+import { MUTE_LIST_STORAGE_KEY } from "~lib/mute-list"
+import { ACTIVE_PROFILE_STORAGE_KEY, loadProfiles } from "~lib/profiles"
+import { THRESHOLDS_STORAGE_KEY } from "~lib/thresholds"
+import { MONTHLY_BUDGET_STORAGE_KEY } from "~lib/usage"
+
+// Pages the feed content scripts run on, used to find their tabs again
+// after the service worker restarts
+const FEED_TAB_URLS = [
+  "https://www.linkedin.com/feed*",
+  "https://twitter.com/home",
+  "https://x.com/home"
+]
+
+// Applying a profile writes several settings at once, which are pushed as
+// a single update
+const SETTINGS_UPDATE_DELAY_MS = 100
+
+const storage = new Storage()
+const profileStorage = new Storage({ area: "local" })
+
+// Tabs whose content script registered with register-tab
+const feedTabs = new Set<number>()
+let tabsRestored = false
+
+/**
+ * Remembers a tab running a feed content script.
+ * @param tabId The tab id
+ */
+export function registerTab(tabId: number): void {
+  feedTabs.add(tabId)
+}
+
+/**
+ * Forgets a tab, e.g. once it is closed.
+ * @param tabId The tab id
+ */
+export function unregisterTab(tabId: number): void {
+  feedTabs.delete(tabId)
+}
+
+/**
+ * Lists the tracked tabs. The first call after a service worker restart
+ * also picks up feed tabs that registered with the previous worker.
+ * @returns The tab ids
+ */
+async function getFeedTabs(): Promise<number[]> {
+  if (!tabsRestored) {
+    tabsRestored = true
+    const tabs = await chrome.tabs.query({ url: FEED_TAB_URLS })
+    tabs.forEach((tab) => tab.id !== undefined && feedTabs.add(tab.id))
+  }
+
+  return [...feedTabs]
+}
+
+/**
+ * Pushes an action to one tab and waits for its content script to
+ * acknowledge it. Tabs that no longer answer are forgotten.
+ * @param tabId The tab id
+ * @param action The action name
+ * @param data The action data
+ * @returns Whether the content script handled the action
+ */
+export async function sendToTab<A extends ContentAction>(
+  tabId: number,
+  action: A,
+  data: ContentActionMap[A]
+): Promise<boolean> {
+  const message: BackgroundMessage<A> = {
+    type: "from-background",
+    action,
+    data,
+    protocolVersion: PROTOCOL_VERSION
+  }
+
+  try {
+    const response = await chrome.tabs.sendMessage(tabId, message)
+    if (response?.success) {
+      return true
+    }
+    console.warn(
+      `⚠️ [Broadcast] Tab ${tabId} rejected ${action}:`,
+      response?.error
+    )
+    return false
+  } catch (error) {
+    // The tab navigated away or its content script is gone
+    unregisterTab(tabId)
+    return false
+  }
+}
+
+/**
+ * Pushes an action to every feed tab.
+ * @param action The action name
+ * @param data The action data
+ * @param exceptTabId A tab to skip, usually the one the change came from
+ * @returns Which tabs acknowledged the action
+ */
+export async function broadcast<A extends ContentAction>(
+  action: A,
+  data: ContentActionMap[A],
+  exceptTabId?: number
+): Promise<DeliveryReport> {
+  const tabIds = (await getFeedTabs()).filter((id) => id !== exceptTabId)
+  const results = await Promise.all(
+    tabIds.map((tabId) => sendToTab(tabId, action, data))
+  )
+
+  const report: DeliveryReport = {
+    delivered: tabIds.filter((_, index) => results[index]),
+    failed: tabIds.filter((_, index) => !results[index])
+  }
+  if (tabIds.length > 0) {
+    console.log(
+      `📣 [Broadcast] ${action} delivered to ${report.delivered.length}/${tabIds.length} tabs`
+    )
+  }
+  return report
+}
+
+/**
+ * Forgets closed tabs and pushes settings changes to every feed tab,
+ * including the ones that may fix posts that failed to categorize.
+ */
+export function startBroadcaster(): void {
+  chrome.tabs.onRemoved.addListener(unregisterTab)
+
+  let updateTimer: ReturnType<typeof setTimeout> | undefined
+  let switchedProfileId: string | null = null
+
+  const pushSettingsUpdate = async () => {
+    const timestamp = Date.now()
+    if (!switchedProfileId) {
+      await broadcast("category-update", { timestamp })
+      return
+    }
+
+    const profileId = switchedProfileId
+    switchedProfileId = null
+    const profile = (await loadProfiles(profileStorage)).find(
+      ({ id }) => id === profileId
+    )
+    await broadcast("profile-change", { timestamp, name: profile?.name ?? "" })
+  }
+
+  const categoryUpdate = () => {
+    clearTimeout(updateTimer)
+    updateTimer = setTimeout(() => {
+      pushSettingsUpdate().catch((error) =>
+        console.error("❌ [Broadcast] Error pushing settings update:", error)
+      )
+    }, SETTINGS_UPDATE_DELAY_MS)
+  }
+
+  storage.watch({
+    "user-categories": categoryUpdate,
+    [THRESHOLDS_STORAGE_KEY]: categoryUpdate,
+    [FILTER_MODE_STORAGE_KEY]: categoryUpdate,
+    [FILTER_RULES_STORAGE_KEY]: categoryUpdate,
+    [AUTHOR_LISTS_STORAGE_KEY]: categoryUpdate,
+    [MUTE_LIST_STORAGE_KEY]: categoryUpdate,
+    [ACTIVE_PROFILE_STORAGE_KEY]: ({ newValue }) => {
+      if (typeof newValue === "string") {
+        switchedProfileId = newValue
+        categoryUpdate()
+      }
+    },
+    enabled: ({ newValue }) =>
+      broadcast("enabled-change", { enabled: Boolean(newValue) }),
+    [MONTHLY_BUDGET_STORAGE_KEY]: () =>
+      broadcast("retry-failed", { codes: ["BUDGET_EXCEEDED"] })
+  })
+
+  // A new key or provider may fix missing or rejected keys
+  const providerKeys = [
+    PROVIDER_STORAGE_KEY,
+    ...Object.values(PROVIDER_OPTIONS).flatMap(({ storageKeys }) =>
+      Object.values(storageKeys)
+    )
+  ]
+  storage.watch(
+    Object.fromEntries(
+      providerKeys.map((key) => [
+        key,
+        () =>
+          broadcast("retry-failed", {
+            codes: ["NO_API_KEY", "INVALID_KEY", "NETWORK"]
+          })
+      ])
+    )
+  )
+}
@@ -0,0 +1,38 @@
+// Abort controllers of categorize-post requests, keyed by the request id
+// chosen by the content script
+const controllers = new Map<string, AbortController>()
+
+/**
+ * Registers a request that the content script may cancel later.
+ * @param requestId The id sent with the request
+ * @returns The signal to pass down to the categorizer
+ */
+export function registerCancellable(requestId: string): AbortSignal {
+  const controller = new AbortController()
+  controllers.set(requestId, controller)
+  return controller.signal
+}
+
+/**
+ * Forgets a request once it has been answered.
+ * @param requestId The id sent with the request
+ */
+export function releaseCancellable(requestId: string): void {
+  controllers.delete(requestId)
+}
+
+/**
+ * Aborts a pending request.
+ * @param requestId The id sent with the request
+ * @returns Whether the request was still pending
+ */
+export function cancelRequest(requestId: string): boolean {
+  const controller = controllers.get(requestId)
+  if (!controller) {
+    return false
+  }
+
+  controllers.delete(requestId)
+  controller.abort()
+  return true
+}
@@ -0,0 +1,172 @@
+import { createAbortError, isAbortError } from "../request-queue"
+import { categorizePosts } from "./categorize"
+import type { CategoryResponse, PostInput, UserCategories } from "./types"
+
+// How long to wait for more posts before sending a batch
+const BATCH_WINDOW_MS = 300
+// Upper bound on posts per request to keep prompts and responses manageable
+const MAX_BATCH_SIZE = 10
+
+interface BatchWaiter {
+  resolve: (response: CategoryResponse) => void
+  reject: (error: unknown) => void
+}
+
+interface PendingBatch {
+  userCategories: UserCategories
+  posts: Map<string, PostInput>
+  resolvers: Map<string, BatchWaiter[]>
+  timer: ReturnType<typeof setTimeout>
+  // Aborts the provider request once every waiter has cancelled
+  controller: AbortController
+  waiting: number
+  sent: boolean
+}
+
+// Posts can only share a prompt if they share a category set
+const pendingBatches = new Map<string, PendingBatch>()
+
+const getBatchKey = (userCategories: UserCategories): string =>
+  JSON.stringify({
+    include: [...(userCategories?.include ?? [])].sort(),
+    exclude: [...(userCategories?.exclude ?? [])].sort()
+  })
+
+/**
+ * Sends every post collected for a category set in one request and
+ * resolves each caller with the result for its own post.
+ * @param batchKey The key of the batch to flush
+ */
+async function flushBatch(batchKey: string): Promise<void> {
+  const batch = pendingBatches.get(batchKey)
+  if (!batch) {
+    return
+  }
+
+  pendingBatches.delete(batchKey)
+  clearTimeout(batch.timer)
+  batch.sent = true
+
+  try {
+    const results = await categorizePosts(
+      Array.from(batch.posts.values()),
+      batch.userCategories,
+      batch.controller.signal
+    )
+
+    for (const { id, ...response } of results) {
+      batch.resolvers.get(id)?.forEach(({ resolve }) => resolve(response))
+    }
+  } catch (error) {
+    // Cancelled waiters have already been rejected
+    if (!isAbortError(error)) {
+      batch.resolvers.forEach((waiters) =>
+        waiters.forEach(({ reject }) => reject(error))
+      )
+    }
+  }
+}
+
+/**
+ * Withdraws one waiter from a batch. Its post is dropped if the batch has
+ * not been sent yet, and the whole request is aborted once nobody is left.
+ * @param batchKey The key the batch was created under
+ * @param batch The batch the waiter joined
+ * @param postId The post the waiter asked for
+ * @param waiter The waiter to withdraw
+ */
+function cancelWaiter(
+  batchKey: string,
+  batch: PendingBatch,
+  postId: string,
+  waiter: BatchWaiter
+): void {
+  const waiters = (batch.resolvers.get(postId) ?? []).filter(
+    (other) => other !== waiter
+  )
+  waiter.reject(createAbortError())
+  batch.waiting--
+
+  if (!batch.sent && waiters.length === 0) {
+    batch.posts.delete(postId)
+    batch.resolvers.delete(postId)
+  } else {
+    batch.resolvers.set(postId, waiters)
+  }
+
+  if (batch.waiting > 0) {
+    return
+  }
+
+  if (batch.sent) {
+    batch.controller.abort()
+  } else {
+    clearTimeout(batch.timer)
+    pendingBatches.delete(batchKey)
+  }
+}
+
+/**
+ * Queues a post to be categorized together with other posts that arrive
+ * within a short window.
+ * @param post The post to categorize
+ * @param userCategories The user's include/exclude categories
+ * @param signal Withdraws the post from its batch
+ * @returns The categorization for this post
+ * @throws An AbortError if the signal is aborted first
+ */
+export function categorizeInBatch(
+  post: PostInput,
+  userCategories: UserCategories,
+  signal?: AbortSignal
+): Promise<CategoryResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const batchKey = getBatchKey(userCategories)
+    let batch = pendingBatches.get(batchKey)
+
+    if (!batch) {
+      batch = {
+        userCategories,
+        posts: new Map(),
+        resolvers: new Map(),
+        timer: setTimeout(() => flushBatch(batchKey), BATCH_WINDOW_MS),
+        controller: new AbortController(),
+        waiting: 0,
+        sent: false
+      }
+      pendingBatches.set(batchKey, batch)
+    }
+
+    // Callers without a signal keep the batch alive until it completes
+    const joined = batch
+    const onAbort = () => cancelWaiter(batchKey, joined, post.id, waiter)
+    const waiter: BatchWaiter = {
+      resolve: (response) => {
+        signal?.removeEventListener("abort", onAbort)
+        resolve(response)
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort)
+        reject(error)
+      }
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    // The same post may be requested twice before the batch is sent
+    batch.posts.set(post.id, post)
+    batch.resolvers.set(post.id, [
+      ...(batch.resolvers.get(post.id) ?? []),
+      waiter
+    ])
+    batch.waiting++
+
+    if (batch.posts.size >= MAX_BATCH_SIZE) {
+      flushBatch(batchKey)
+    }
+  })
+}
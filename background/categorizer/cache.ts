@@ -0,0 +1,184 @@
+import { Storage } from "@plasmohq/storage"
+
+import type { CategoryResponse, PostInput, UserCategories } from "./types"
+
+// chrome.storage.local is shared by every tab and survives restarts
+const storage = new Storage({ area: "local" })
+
+const CACHE_STORAGE_KEY = "categorization-cache"
+const CACHE_TTL_MS = 3 * 24 * 60 * 60 * 1000 // 3 days
+const MAX_CACHE_ENTRIES = 2000
+// Coalesce bursts of writes into a single storage update
+const PERSIST_DELAY_MS = 1000
+
+interface CacheEntry {
+  response: CategoryResponse
+  storedAt: number
+}
+
+/**
+ * Everything that can change the categorization of a post.
+ */
+export interface CacheKeyParts {
+  post: PostInput
+  userCategories: UserCategories
+  model: string
+  promptVersion: number
+  // Rendered definitions of the categories in the prompt
+  definitions: Record<string, string>
+  // Whether the post's images are sent to the provider
+  vision: boolean
+}
+
+// Insertion order doubles as recency order for eviction
+let cache: Map<string, CacheEntry> | null = null
+let cacheLoading: Promise<Map<string, CacheEntry>> | null = null
+let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+async function loadCache(): Promise<Map<string, CacheEntry>> {
+  if (cache) {
+    return cache
+  }
+
+  if (!cacheLoading) {
+    cacheLoading = (async () => {
+      try {
+        const stored =
+          (await storage.get<Record<string, CacheEntry>>(CACHE_STORAGE_KEY)) ||
+          {}
+        const now = Date.now()
+        const entries = Object.entries(stored)
+          .filter(([, entry]) => now - entry.storedAt < CACHE_TTL_MS)
+          .sort(([, a], [, b]) => a.storedAt - b.storedAt)
+        cache = new Map(entries)
+        console.log(`🗄️ [Cache] Loaded ${cache.size} cached categorizations`)
+      } catch (error) {
+        console.error("❌ [Cache] Error loading cache:", error)
+        cache = new Map()
+      }
+      return cache
+    })()
+  }
+
+  return cacheLoading
+}
+
+function schedulePersist(): void {
+  if (persistTimer !== null) {
+    return
+  }
+
+  persistTimer = setTimeout(async () => {
+    persistTimer = null
+    try {
+      await storage.set(
+        CACHE_STORAGE_KEY,
+        Object.fromEntries(cache ?? new Map())
+      )
+    } catch (error) {
+      console.error("❌ [Cache] Error persisting cache:", error)
+    }
+  }, PERSIST_DELAY_MS)
+}
+
+/**
+ * Hashes the inputs of a categorization into a cache key.
+ * @param parts The post, category set and model
+ * @returns A hex SHA-256 digest
+ */
+export async function getCacheKey(parts: CacheKeyParts): Promise<string> {
+  const normalized = JSON.stringify({
+    text: parts.post.text,
+    author: parts.post.authorName || "",
+    images: (parts.post.images ?? []).map((image) =>
+      parts.vision ? image.url : image.alt || ""
+    ),
+    include: [...(parts.userCategories?.include ?? [])]
+      .map((cat) => cat.toUpperCase())
+      .sort(),
+    exclude: [...(parts.userCategories?.exclude ?? [])]
+      .map((cat) => cat.toUpperCase())
+      .sort(),
+    model: parts.model,
+    promptVersion: parts.promptVersion,
+    definitions: Object.entries(parts.definitions).sort(([a], [b]) =>
+      a.localeCompare(b)
+    )
+  })
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalized)
+  )
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+/**
+ * Looks up a cached categorization.
+ * @param key The cache key from getCacheKey
+ * @returns The cached response, or undefined if missing or expired
+ */
+export async function getCachedResponse(
+  key: string
+): Promise<CategoryResponse | undefined> {
+  const entries = await loadCache()
+  const entry = entries.get(key)
+
+  if (!entry) {
+    return undefined
+  }
+
+  if (Date.now() - entry.storedAt >= CACHE_TTL_MS) {
+    entries.delete(key)
+    schedulePersist()
+    return undefined
+  }
+
+  // Move to the end so frequently seen posts are evicted last
+  entries.delete(key)
+  entries.set(key, entry)
+
+  return entry.response
+}
+
+/**
+ * Stores a categorization, evicting the least recently used entries when
+ * the cache is full.
+ * @param key The cache key from getCacheKey
+ * @param response The categorization to store
+ */
+export async function setCachedResponse(
+  key: string,
+  response: CategoryResponse
+): Promise<void> {
+  const entries = await loadCache()
+
+  entries.delete(key)
+  entries.set(key, { response, storedAt: Date.now() })
+
+  while (entries.size > MAX_CACHE_ENTRIES) {
+    entries.delete(entries.keys().next().value)
+  }
+
+  schedulePersist()
+}
+
+/**
+ * Removes every cached categorization.
+ */
+export async function clearCache(): Promise<void> {
+  const entries = await loadCache()
+  entries.clear()
+  await storage.remove(CACHE_STORAGE_KEY)
+  console.log("🧹 [Cache] Cleared categorization cache")
+}
+
+/**
+ * @returns The number of live entries in the cache
+ */
+export async function getCacheSize(): Promise<number> {
+  return (await loadCache()).size
+}
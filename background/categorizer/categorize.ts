@@ -0,0 +1,230 @@
+import { Storage } from "@plasmohq/storage"
+
+import { loadCategoryDefinitions } from "~lib/category-definitions"
+import { loadFeedback } from "~lib/feedback"
+import { loadPromptTemplate } from "~lib/prompt-template"
+import {
+  loadVisionCategories,
+  MAX_IMAGES_PER_POST,
+  usesVision
+} from "~lib/vision-settings"
+
+import {
+  getActiveProvider,
+  type ChatImage,
+  type ChatMessage
+} from "../providers"
+import { enqueueRequest, isAbortError } from "../request-queue"
+import { recordUsage } from "../usage-tracker"
+import { toCategorizationError } from "./errors"
+import { selectExamples } from "./examples"
+import { fetchPostImages } from "./images"
+import { buildCategorizationPrompt, getAllCategories } from "./prompt"
+import type {
+  CategorizedPost,
+  CategoryResponse,
+  PostInput,
+  UserCategories
+} from "./types"
+import {
+  buildResponseSchema,
+  getMaxOutputTokens,
+  validateCategorization
+} from "./validate"
+
+const storage = new Storage()
+const feedbackStorage = new Storage({ area: "local" })
+
+const ERROR_RESPONSE: CategoryResponse = {
+  categories: ["ERROR"],
+  confidence: 0,
+  scores: {},
+  tldr: "Error processing content"
+}
+
+/**
+ * Fetches the images of every post in a batch, labeled with the key of the
+ * post they belong to.
+ * @param posts The posts in the batch
+ * @param postKeys The key of each post in the prompt
+ * @returns The images to attach
+ */
+async function attachImages(
+  posts: PostInput[],
+  postKeys: string[]
+): Promise<ChatImage[]> {
+  const perPost = await Promise.all(
+    posts.map((post) =>
+      fetchPostImages((post.images ?? []).slice(0, MAX_IMAGES_PER_POST))
+    )
+  )
+
+  return perPost.flatMap((images, index) =>
+    images.map((image, imageIndex) => ({
+      ...image,
+      label: `Image ${imageIndex + 1} of post ${postKeys[index]}:`
+    }))
+  )
+}
+
+/**
+ * Categorizes several posts with a single LLM request.
+ *
+ * The response is constrained to a JSON schema listing the allowed
+ * categories and then validated. If any post comes back invalid the model
+ * is asked once more with the problems listed; posts that are still invalid
+ * come back as ERROR.
+ * @param posts The posts to categorize
+ * @param userCategories The user's include/exclude categories
+ * @param signal Cancels the request when nobody needs the results anymore
+ * @returns One result per post, in the same order as `posts`
+ * @throws An AbortError if the signal is aborted
+ */
+export async function categorizePosts(
+  posts: PostInput[],
+  userCategories: UserCategories,
+  signal?: AbortSignal
+): Promise<CategorizedPost[]> {
+  if (posts.length === 0) {
+    return []
+  }
+
+  try {
+    const provider = await getActiveProvider()
+
+    // Short keys keep the prompt small and are easy for the model to echo back
+    const postKeys = posts.map((_, index) => `p${index + 1}`)
+    const allowedCategories = getAllCategories(userCategories)
+    const [template, definitions, feedback, visionCategories] =
+      await Promise.all([
+        loadPromptTemplate(storage),
+        loadCategoryDefinitions(storage),
+        loadFeedback(feedbackStorage),
+        loadVisionCategories(storage)
+      ])
+    const prompt = buildCategorizationPrompt(
+      posts,
+      postKeys,
+      userCategories,
+      template,
+      definitions,
+      selectExamples(feedback, posts, allowedCategories)
+    )
+    const jsonSchema = buildResponseSchema(postKeys, allowedCategories)
+    const maxTokens = getMaxOutputTokens(posts.length, allowedCategories.length)
+
+    console.log(`Categorizing batch of ${posts.length} post(s)`)
+
+    // Call the configured LLM provider through the shared request queue.
+    // Image bytes are left out of the key; their URLs identify them.
+    const complete = (messages: ChatMessage[]) =>
+      enqueueRequest(
+        `${provider.id}:${provider.model}:${JSON.stringify(messages, (key, value) => (key === "data" ? undefined : value))}`,
+        async (requestSignal) => {
+          const result = await provider.complete({
+            messages,
+            temperature: 0.2, // Lower temperature for more consistent results
+            maxTokens,
+            json: true, // Ensure JSON response
+            jsonSchema,
+            signal: requestSignal
+          })
+          recordUsage(provider.id, result.model, result.usage)
+          return result
+        },
+        signal
+      )
+
+    const messages: ChatMessage[] = [{ role: "system", content: prompt }]
+
+    // Images only go to the provider for categories that opted in
+    if (
+      usesVision(
+        [
+          ...(userCategories?.include ?? []),
+          ...(userCategories?.exclude ?? [])
+        ],
+        visionCategories
+      )
+    ) {
+      const images = await attachImages(posts, postKeys)
+      if (images.length > 0) {
+        messages.push({
+          role: "user",
+          content: "Images from the posts above:",
+          images
+        })
+      }
+    }
+    const completion = await complete(messages)
+    const validation = validateCategorization(
+      completion.content,
+      postKeys,
+      allowedCategories
+    )
+    const results = validation.results
+
+    if (validation.repairs.length > 0) {
+      console.log("Repaired categories:", validation.repairs)
+    }
+
+    if (validation.errors.length > 0) {
+      console.warn(
+        `Invalid ${provider.id} result, asking again:`,
+        validation.errors
+      )
+
+      const retry = await complete([
+        ...messages,
+        { role: "assistant", content: completion.content },
+        {
+          role: "user",
+          content: `Your response had these problems:
+${validation.errors.map((error) => `- ${error}`).join("\n")}
+
+Respond again with the complete JSON object for every post. Use only these categories: ${allowedCategories.join(", ")}.`
+        }
+      ])
+      const retryValidation = validateCategorization(
+        retry.content,
+        postKeys,
+        allowedCategories
+      )
+
+      // Keep what was valid the first time, prefer the corrected answers
+      retryValidation.results.forEach((result, key) => results.set(key, result))
+
+      if (retryValidation.errors.length > 0) {
+        console.error(
+          `Invalid ${provider.id} result after retry:`,
+          retryValidation.errors
+        )
+      }
+    }
+
+    const categorized = posts.map((post, index) => ({
+      id: post.id,
+      ...(results.get(postKeys[index]) ?? {
+        ...ERROR_RESPONSE,
+        error: {
+          code: "PARSE_FAILED" as const,
+          message: `No valid result for post ${postKeys[index]}`
+        }
+      })
+    }))
+
+    console.log("Categorization results:", categorized)
+    return categorized
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
+    console.error("Error categorizing posts:", error)
+    const categorizationError = toCategorizationError(error)
+    return posts.map((post) => ({
+      id: post.id,
+      ...ERROR_RESPONSE,
+      error: categorizationError
+    }))
+  }
+}
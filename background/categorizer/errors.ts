@@ -0,0 +1,28 @@
+import type { CategorizationError } from "~lib/categorization-errors"
+
+import { ProviderConfigError, ProviderError } from "../providers"
+
+/**
+ * Works out why a categorization request failed. Failed fetches and any
+ * other provider status count as network problems.
+ * @param error The error thrown while categorizing
+ * @returns The error code and details
+ */
+export function toCategorizationError(error: unknown): CategorizationError {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof ProviderConfigError) {
+    return { code: "NO_API_KEY", message }
+  }
+
+  if (error instanceof ProviderError) {
+    if (error.status === 401 || error.status === 403) {
+      return { code: "INVALID_KEY", message }
+    }
+    if (error.status === 429) {
+      return { code: "RATE_LIMITED", message }
+    }
+  }
+
+  return { code: "NETWORK", message }
+}
@@ -0,0 +1,145 @@
+import type { FeedbackExample } from "~lib/feedback"
+
+import type { CategoryResponse, PostInput } from "./types"
+
+// Few-shot examples added to each prompt
+const MAX_PROMPT_EXAMPLES = 6
+// Example text is shortened to keep the prompt small
+const MAX_EXAMPLE_LENGTH = 300
+
+const tokenize = (text: string): Set<string> =>
+  new Set(text.toLowerCase().match(/[\p{L}\p{N}']{3,}/gu) ?? [])
+
+/**
+ * Jaccard similarity of the words in two texts.
+ * @param a The words of one text
+ * @param b The words of the other text
+ * @returns The similarity between 0 and 1
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0
+  }
+
+  let shared = 0
+  a.forEach((word) => {
+    if (b.has(word)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Picks the user's corrections most relevant to a batch: examples must
+ * involve one of the batch's categories, and the ones closest in wording
+ * to the posts come first, then the newest.
+ * @param examples Every stored example
+ * @param posts The posts in the batch
+ * @param categories The categories the model may assign
+ * @returns At most MAX_PROMPT_EXAMPLES examples
+ */
+export function selectExamples(
+  examples: FeedbackExample[],
+  posts: PostInput[],
+  categories: string[]
+): FeedbackExample[] {
+  const allowed = new Set(categories)
+  const postWords = posts.map((post) => tokenize(post.text))
+  const postIds = new Set(posts.map((post) => post.id))
+
+  return examples
+    .filter(
+      (example) =>
+        !postIds.has(example.postId) &&
+        [...example.confirmed, ...example.rejected].some((category) =>
+          allowed.has(category)
+        )
+    )
+    .map((example) => {
+      const words = tokenize(example.text)
+      return {
+        example,
+        score: Math.max(0, ...postWords.map((post) => similarity(post, words)))
+      }
+    })
+    .sort(
+      (a, b) => b.score - a.score || b.example.createdAt - a.example.createdAt
+    )
+    .slice(0, MAX_PROMPT_EXAMPLES)
+    .map(({ example }) => example)
+}
+
+/**
+ * Renders examples as a prompt section.
+ * @param examples The examples to render
+ * @param categories The categories the model may assign
+ * @returns The section, or an empty string without examples
+ */
+export function formatExamples(
+  examples: FeedbackExample[],
+  categories: string[]
+): string {
+  if (examples.length === 0) {
+    return ""
+  }
+
+  const allowed = new Set(categories)
+  const rendered = examples.map((example) => {
+    const text =
+      example.text.length > MAX_EXAMPLE_LENGTH
+        ? `${example.text.slice(0, MAX_EXAMPLE_LENGTH)}...`
+        : example.text
+    const confirmed = example.confirmed.filter((category) =>
+      allowed.has(category)
+    )
+    const rejected = example.rejected.filter((category) =>
+      allowed.has(category)
+    )
+
+    return [
+      `"""\n${text}\n"""`,
+      confirmed.length > 0 ? `Correct categories: ${confirmed.join(", ")}` : "",
+      rejected.length > 0 ? `NOT: ${rejected.join(", ")}` : ""
+    ]
+      .filter(Boolean)
+      .join("\n")
+  })
+
+  return `## EXAMPLES CORRECTED BY THE USER:
+Follow these judgments for similar posts.
+
+${rendered.join("\n\n")}`
+}
+
+/**
+ * Applies the user's own judgment of a post on top of a categorization.
+ * @param response The categorization
+ * @param example The user's feedback on the same post
+ * @returns The corrected categorization
+ */
+export function applyFeedback(
+  response: CategoryResponse,
+  example: FeedbackExample
+): CategoryResponse {
+  const rejected = new Set(example.rejected)
+  const categories = [
+    ...new Set([
+      ...response.categories.filter((category) => !rejected.has(category)),
+      ...example.confirmed
+    ])
+  ]
+  const scores = { ...(response.scores ?? {}) }
+  example.rejected.forEach((category) => (scores[category] = 0))
+  example.confirmed.forEach((category) => (scores[category] = 1))
+  const rationales = { ...(response.rationales ?? {}) }
+  example.rejected.forEach((category) => delete rationales[category])
+  example.confirmed.forEach(
+    (category) => (rationales[category] = `You marked this post as ${category}`)
+  )
+
+  return {
+    ...response,
+    categories: categories.length > 0 ? categories : ["OTHER"],
+    scores,
+    rationales
+  }
+}
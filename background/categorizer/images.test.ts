@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+type Images = typeof import("./images")
+
+const IMAGE_URL = "https://pbs.twimg.com/media/photo.jpg"
+
+// The image cache is module state, so each test loads the module afresh
+let images: Images
+
+beforeEach(async () => {
+  vi.resetModules()
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  images = await import("./images")
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+const imageResponse = () =>
+  new Response(new Uint8Array([1, 2, 3]), {
+    headers: { "content-type": "image/jpeg" }
+  })
+
+describe("fetchPostImages", () => {
+  it("downloads an image once", async () => {
+    const fetch = vi.fn(async () => imageResponse())
+    vi.stubGlobal("fetch", fetch)
+
+    await images.fetchPostImages([{ url: IMAGE_URL }])
+    const [image] = await images.fetchPostImages([{ url: IMAGE_URL }])
+
+    expect(image).toEqual({
+      url: IMAGE_URL,
+      mediaType: "image/jpeg",
+      data: "AQID"
+    })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("tries a failed download again", async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(imageResponse())
+    vi.stubGlobal("fetch", fetch)
+
+    await expect(images.fetchPostImages([{ url: IMAGE_URL }])).resolves.toEqual(
+      []
+    )
+    await expect(
+      images.fetchPostImages([{ url: IMAGE_URL }])
+    ).resolves.toHaveLength(1)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("skips images outside the media CDNs", async () => {
+    const fetch = vi.fn()
+    vi.stubGlobal("fetch", fetch)
+
+    await expect(
+      images.fetchPostImages([{ url: "https://example.com/photo.jpg" }])
+    ).resolves.toEqual([])
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
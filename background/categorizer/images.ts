@@ -0,0 +1,100 @@
+import type { PostImage } from "~lib/vision-settings"
+
+import type { ChatImage } from "../providers"
+
+// Only the platforms' own media CDNs are fetched, never arbitrary page URLs
+const ALLOWED_IMAGE_HOSTS = ["pbs.twimg.com", "media.licdn.com"]
+// Providers reject larger images
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024
+const SUPPORTED_MEDIA_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp"
+]
+// Recently fetched images, so a batch retry doesn't download them again
+const MAX_CACHED_IMAGES = 20
+
+const imageCache = new Map<string, Promise<ChatImage | null>>()
+
+/**
+ * Checks that an image URL points at a supported media CDN.
+ * @param url The image URL from the content script
+ * @returns Whether the background may fetch it
+ */
+export function isAllowedImageUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url)
+    return protocol === "https:" && ALLOWED_IMAGE_HOSTS.includes(hostname)
+  } catch {
+    return false
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ""
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+async function downloadImage(url: string): Promise<ChatImage | null> {
+  try {
+    const response = await fetch(url, { credentials: "omit" })
+    const mediaType = response.headers.get("content-type")?.split(";")[0]
+
+    if (!response.ok || !SUPPORTED_MEDIA_TYPES.includes(mediaType)) {
+      console.warn(
+        `🖼️ [Images] Skipping ${url} (${response.status}, ${mediaType})`
+      )
+      return null
+    }
+
+    const buffer = await response.arrayBuffer()
+    if (buffer.byteLength > MAX_IMAGE_BYTES) {
+      console.warn(`🖼️ [Images] Skipping ${url}, ${buffer.byteLength} bytes`)
+      return null
+    }
+
+    return { url, mediaType, data: toBase64(buffer) }
+  } catch (error) {
+    console.warn(`🖼️ [Images] Error fetching ${url}:`, error)
+    return null
+  }
+}
+
+/**
+ * Fetches post images in the background so the page never sees the
+ * provider request. Unsupported or oversized images are skipped.
+ * @param images The images found in the post
+ * @returns The fetched images, in the same order
+ */
+export async function fetchPostImages(
+  images: PostImage[]
+): Promise<ChatImage[]> {
+  const fetched = await Promise.all(
+    images
+      .filter((image) => isAllowedImageUrl(image.url))
+      .map((image) => {
+        if (!imageCache.has(image.url)) {
+          if (imageCache.size >= MAX_CACHED_IMAGES) {
+            imageCache.delete(imageCache.keys().next().value)
+          }
+          const download = downloadImage(image.url)
+          imageCache.set(image.url, download)
+          // Failed downloads are forgotten, so the next batch tries again
+          download.then((result) => {
+            if (result === null && imageCache.get(image.url) === download) {
+              imageCache.delete(image.url)
+            }
+          })
+        }
+        return imageCache.get(image.url)
+      })
+  )
+
+  return fetched.filter((image): image is ChatImage => image !== null)
+}
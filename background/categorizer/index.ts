@@ -0,0 +1,12 @@
+export type {
+  CategorizedPost,
+  CategoryResponse,
+  PostCategory,
+  PostInput,
+  UserCategories
+} from "./types"
+export { categorizePosts } from "./categorize"
+export { categorizeInBatch } from "./batcher"
+export { categorizePost } from "./pipeline"
+export { clearCache, getCacheSize } from "./cache"
+export { toCategorizationError } from "./errors"
@@ -0,0 +1,146 @@
+import type { CategoryRules, LocalRules } from "~lib/local-rules"
+
+import type { CategoryResponse, PostInput } from "./types"
+
+export type LocalMatchKind = "keyword" | "phrase" | "pattern" | "author"
+
+export interface LocalMatch {
+  category: string
+  kind: LocalMatchKind
+  term: string
+}
+
+export interface LocalClassification extends CategoryResponse {
+  matches: LocalMatch[]
+}
+
+// Confidence reported for a category backed by this many matches
+const BASE_CONFIDENCE = 0.6
+const CONFIDENCE_PER_EXTRA_MATCH = 0.1
+const MAX_LOCAL_CONFIDENCE = 0.9
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Compiled regexes are reused across posts
+const regexCache = new Map<string, RegExp | null>()
+
+function compile(source: string): RegExp | null {
+  if (!regexCache.has(source)) {
+    try {
+      regexCache.set(source, new RegExp(source, "i"))
+    } catch (error) {
+      console.warn(`⚠️ [Local] Skipping invalid pattern /${source}/:`, error)
+      regexCache.set(source, null)
+    }
+  }
+  return regexCache.get(source)
+}
+
+function findMatches(
+  category: string,
+  rules: CategoryRules,
+  text: string,
+  authorName: string
+): LocalMatch[] {
+  const matches: LocalMatch[] = []
+  // Collapse whitespace so phrases match across line breaks
+  const normalizedText = text.replace(/\s+/g, " ")
+  const lowerText = normalizedText.toLowerCase()
+
+  for (const keyword of rules.keywords) {
+    if (compile(`\\b${escapeRegExp(keyword)}\\b`)?.test(normalizedText)) {
+      matches.push({ category, kind: "keyword", term: keyword })
+    }
+  }
+
+  for (const phrase of rules.phrases) {
+    if (lowerText.includes(phrase.replace(/\s+/g, " ").toLowerCase())) {
+      matches.push({ category, kind: "phrase", term: phrase })
+    }
+  }
+
+  for (const pattern of rules.patterns) {
+    if (compile(pattern)?.test(normalizedText)) {
+      matches.push({ category, kind: "pattern", term: pattern })
+    }
+  }
+
+  const lowerAuthor = authorName.toLowerCase()
+  for (const author of rules.authors) {
+    if (lowerAuthor && lowerAuthor.includes(author.toLowerCase())) {
+      matches.push({ category, kind: "author", term: author })
+    }
+  }
+
+  return matches
+}
+
+const describeMatch = (match: LocalMatch): string =>
+  match.kind === "author"
+    ? `author "${match.term}"`
+    : match.kind === "pattern"
+      ? `/${match.term}/`
+      : `"${match.term}"`
+
+/**
+ * Categorizes a post with the user's keyword, phrase, regex and author
+ * rules. Runs entirely in the background worker without network access.
+ * @param post The post to categorize
+ * @param rules The rules keyed by category
+ * @returns The matched categories, or OTHER when no rule matched
+ */
+export function classifyLocally(
+  post: PostInput,
+  rules: LocalRules
+): LocalClassification {
+  const matches = Object.entries(rules).flatMap(([category, categoryRules]) =>
+    findMatches(category, categoryRules, post.text, post.authorName || "")
+  )
+
+  if (matches.length === 0) {
+    return {
+      categories: ["OTHER"],
+      confidence: 0.2,
+      scores: { OTHER: 0.2 },
+      rationales: {},
+      tldr: "No local rule matched",
+      matches
+    }
+  }
+
+  const categories = [...new Set(matches.map((match) => match.category))]
+  const scores = Object.fromEntries(
+    categories.map((category) => [
+      category,
+      Math.min(
+        BASE_CONFIDENCE +
+          (matches.filter((match) => match.category === category).length - 1) *
+            CONFIDENCE_PER_EXTRA_MATCH,
+        MAX_LOCAL_CONFIDENCE
+      )
+    ])
+  )
+
+  const rationales = Object.fromEntries(
+    categories.map((category) => [
+      category,
+      `Matched ${matches
+        .filter((match) => match.category === category)
+        .map(describeMatch)
+        .join(", ")}`
+    ])
+  )
+
+  return {
+    categories,
+    confidence: Math.max(...Object.values(scores)),
+    scores,
+    rationales,
+    tldr: `Matched locally: ${matches
+      .slice(0, 3)
+      .map((match) => `${describeMatch(match)} (${match.category})`)
+      .join(", ")}`,
+    matches
+  }
+}
@@ -0,0 +1,207 @@
+import { Storage } from "@plasmohq/storage"
+
+import {
+  formatCategoryDefinitions,
+  loadCategoryDefinitions
+} from "~lib/category-definitions"
+import { loadFeedback } from "~lib/feedback"
+import {
+  getActiveCategories,
+  getDecisiveCategories,
+  loadFilterMode
+} from "~lib/filter-mode"
+import { getRuleCategories, loadFilterRules } from "~lib/filter-rules"
+import { isProviderConfigured, loadProviderSettings } from "~lib/llm-settings"
+import { loadLocalRules } from "~lib/local-rules"
+import { loadPromptTemplate } from "~lib/prompt-template"
+import { loadVisionCategories, usesVision } from "~lib/vision-settings"
+
+import { getExceededBudget } from "../usage-tracker"
+import { categorizeInBatch } from "./batcher"
+import { getCachedResponse, getCacheKey, setCachedResponse } from "./cache"
+import { applyFeedback } from "./examples"
+import { classifyLocally } from "./local-classifier"
+import { getAllCategories } from "./prompt"
+import { scoreAiGenerated } from "./stylometry"
+import type { CategoryResponse, PostInput, UserCategories } from "./types"
+
+const storage = new Storage()
+const feedbackStorage = new Storage({ area: "local" })
+
+/**
+ * Categorizes a single post.
+ *
+ * Only the category lists the filter mode uses are considered, plus the
+ * categories filter rules mention. The local rule-based classifier runs
+ * first. Without a configured provider its answer is final, flagged with
+ * NO_API_KEY only when no rule matched; with one, a local match on a
+ * category that alone decides the post (see getDecisiveCategories) is
+ * enough to skip the LLM, unless a filter rule needs the LLM's scores.
+ * Otherwise the persistent cache is consulted before the post joins a
+ * batched LLM request, and local matches are merged into the LLM result (or
+ * replace it if the request fails).
+ * @param post The post to categorize
+ * @param allUserCategories The user's include/exclude categories, whatever
+ *   the filter mode
+ * @param signal Withdraws the post from the LLM request
+ * @returns The categorization
+ * @throws An AbortError if the signal is aborted before the LLM answers
+ */
+async function categorizeUncorrected(
+  post: PostInput,
+  allUserCategories: UserCategories,
+  signal?: AbortSignal
+): Promise<CategoryResponse> {
+  const [
+    providerSettings,
+    localRules,
+    promptTemplate,
+    definitions,
+    visionCategories,
+    filterMode,
+    filterRules
+  ] = await Promise.all([
+    loadProviderSettings(storage),
+    loadLocalRules(storage),
+    loadPromptTemplate(storage),
+    loadCategoryDefinitions(storage),
+    loadVisionCategories(storage),
+    loadFilterMode(storage),
+    loadFilterRules(storage)
+  ])
+  const activeCategories = getActiveCategories(allUserCategories, filterMode)
+  // Categories only rules mention are scored as if included
+  const ruleCategories = getRuleCategories(filterRules)
+  const userCategories = {
+    ...activeCategories,
+    include: [...activeCategories.include, ...ruleCategories]
+  }
+
+  const { matches, ...localResponse } = classifyLocally(post, localRules)
+
+  if (!isProviderConfigured(providerSettings)) {
+    console.log(
+      `🧮 [Local] No provider configured, using local rules for post ${post.id.substring(0, 8)}`
+    )
+    if (matches.length > 0) {
+      return localResponse
+    }
+    return {
+      ...localResponse,
+      error: {
+        code: "NO_API_KEY",
+        message: "No AI provider is configured"
+      }
+    }
+  }
+
+  const decisive = new Set(getDecisiveCategories(activeCategories, filterMode))
+  if (
+    ruleCategories.length === 0 &&
+    matches.some((match) => decisive.has(match.category))
+  ) {
+    console.log(
+      `🧮 [Local] Rule match decided post ${post.id.substring(0, 8)}: ${localResponse.tldr}`
+    )
+    return localResponse
+  }
+
+  const cacheKey = await getCacheKey({
+    post,
+    userCategories,
+    model: `${providerSettings.provider}:${providerSettings.model}`,
+    promptVersion: promptTemplate.version,
+    definitions: formatCategoryDefinitions(
+      definitions,
+      getAllCategories(userCategories)
+    ),
+    vision: usesVision(
+      [...(userCategories?.include ?? []), ...(userCategories?.exclude ?? [])],
+      visionCategories
+    )
+  })
+
+  let response = await getCachedResponse(cacheKey)
+  if (response) {
+    console.log(`🗄️ [Cache] Hit for post ${post.id.substring(0, 8)}`)
+  } else {
+    // Past the budget only cached results and local rules are used
+    const exceededBudget = await getExceededBudget()
+    if (exceededBudget !== null) {
+      console.log(
+        `💸 [Usage] Monthly budget of $${exceededBudget} reached, using local rules for post ${post.id.substring(0, 8)}`
+      )
+      return {
+        ...localResponse,
+        error: {
+          code: "BUDGET_EXCEEDED",
+          message: `Monthly AI budget of $${exceededBudget} reached`
+        }
+      }
+    }
+
+    response = await categorizeInBatch(post, userCategories, signal)
+
+    // Failures should be retried next time rather than remembered
+    if (!response.categories.includes("ERROR")) {
+      await setCachedResponse(cacheKey, response)
+    }
+  }
+
+  if (matches.length === 0) {
+    return response
+  }
+
+  // Keep filtering with the local matches when the provider is unreachable
+  if (response.categories.includes("ERROR")) {
+    return { ...localResponse, error: response.error }
+  }
+
+  // Results cached before per-category scores existed have none
+  const scores = { ...(response.scores ?? {}) }
+  for (const [category, score] of Object.entries(localResponse.scores)) {
+    scores[category] = Math.max(scores[category] ?? 0, score)
+  }
+
+  // A local rule explains a category the model gave no reason for
+  const rationales = {
+    ...localResponse.rationales,
+    ...(response.rationales ?? {})
+  }
+
+  return {
+    ...response,
+    categories: [
+      ...new Set([...response.categories, ...localResponse.categories])
+    ],
+    scores,
+    rationales
+  }
+}
+
+/**
+ * Categorizes a single post, then applies any feedback the user gave on
+ * that exact post so a correction is never repeated. The likely
+ * AI-generated score is computed last, so cached results get it too.
+ * @param post The post to categorize
+ * @param userCategories The user's include/exclude categories
+ * @param signal Withdraws the post from the LLM request
+ * @returns The categorization
+ * @throws An AbortError if the signal is aborted before the LLM answers
+ */
+export async function categorizePost(
+  post: PostInput,
+  userCategories: UserCategories,
+  signal?: AbortSignal
+): Promise<CategoryResponse> {
+  const [response, feedback] = await Promise.all([
+    categorizeUncorrected(post, userCategories, signal),
+    loadFeedback(feedbackStorage)
+  ])
+
+  const example = feedback.find(({ postId }) => postId === post.id)
+  return {
+    ...(example ? applyFeedback(response, example) : response),
+    aiGenerated: scoreAiGenerated(post.text, response.aiJudgment)
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  formatCategoryDefinitions,
+  type CategoryDefinitions
+} from "~lib/category-definitions"
+import type { FeedbackExample } from "~lib/feedback"
+import { renderPromptTemplate, type PromptTemplate } from "~lib/prompt-template"
+import { formatToneDimensions } from "~lib/tone"
+
+import { formatExamples } from "./examples"
+import type { PostInput, UserCategories } from "./types"
+
+export const DEFAULT_CATEGORIES = [
+  "INFORMATIONAL",
+  "BRAGGING",
+  "PROMOTIONAL",
+  "MEME",
+  "OTHER"
+]
+
+/**
+ * Normalizes the user categories and merges them with the defaults.
+ * @param userCategories The include/exclude categories from the content script
+ * @returns Every category the model may assign
+ */
+export function getAllCategories(userCategories: UserCategories): string[] {
+  // Ensure userCategories is properly structured
+  const include = Array.isArray(userCategories?.include)
+    ? userCategories.include
+    : []
+  const exclude = Array.isArray(userCategories?.exclude)
+    ? userCategories.exclude
+    : []
+
+  return [
+    ...new Set(
+      [...DEFAULT_CATEGORIES, ...include, ...exclude].map((cat) =>
+        cat.toUpperCase()
+      )
+    )
+  ]
+}
+
+/**
+ * Appends a line per image to the post text so the model knows about
+ * pictures even when only their alt text is available.
+ * @param post The post to describe
+ * @returns The post text with image lines
+ */
+function describePost(post: PostInput): string {
+  const imageLines = (post.images ?? []).map(
+    (image, index) => `[Image ${index + 1}${image.alt ? `: ${image.alt}` : ""}]`
+  )
+  return [post.text, ...imageLines].join("\n")
+}
+
+/**
+ * Builds the system prompt for categorizing one or more posts in a single
+ * request. The user's template supplies the instructions; the response
+ * format is appended here because the validator depends on it, after any
+ * examples the user corrected.
+ * Posts are referenced by the short keys in `postKeys` rather than by
+ * their (long) hashes to keep the prompt small.
+ * @param posts The posts to categorize
+ * @param postKeys The key the model should echo back for each post
+ * @param userCategories The user's include/exclude categories
+ * @param template The prompt template to render
+ * @param definitions The user's category definitions
+ * @param examples Corrected posts to show the model
+ * @returns The prompt
+ */
+export function buildCategorizationPrompt(
+  posts: PostInput[],
+  postKeys: string[],
+  userCategories: UserCategories,
+  template: PromptTemplate,
+  definitions: CategoryDefinitions = {},
+  examples: FeedbackExample[] = []
+): string {
+  const categories = getAllCategories(userCategories)
+  const instructions = renderPromptTemplate(
+    template,
+    posts.map((post, index) => ({
+      key: postKeys[index],
+      text: describePost(post),
+      authorName: post.authorName
+    })),
+    categories,
+    formatCategoryDefinitions(definitions, categories)
+  )
+
+  const exampleSection = formatExamples(examples, categories)
+
+  return `${instructions}
+${exampleSection ? `\n${exampleSection}\n` : ""}
+## RESPONSE FORMAT:
+Return a JSON object with a "results" array containing one entry per post, each with "id" (the post key), "categories", "confidence", "scores", "rationales", "tone", "aiGenerated", and "tldr" fields.
+"scores" lists every category above with a score between 0 and 1 for how strongly the post belongs to it.
+"rationales" gives one short sentence per assigned category, quoting the phrase or naming the signal (such as the author) that decided it.
+"tone" scores how the post is written, regardless of its topic, between 0 and 1 on each of:
+${formatToneDimensions()}
+"aiGenerated" is the likelihood between 0 and 1 that the post was written by an AI model rather than a person.
+
+Example response:
+{"results": [{"id": "${postKeys[0]}", "categories": ["INFORMATIONAL"], "confidence": 0.9, "scores": [{"category": "INFORMATIONAL", "score": 0.9}, {"category": "MEME", "score": 0.1}], "rationales": [{"category": "INFORMATIONAL", "reason": "Explains \"how the new tax rules work\"."}], "tone": {"OUTRAGE": 0.1, "TOXICITY": 0, "NEGATIVITY": 0.2, "ENGAGEMENT_BAIT": 0}, "aiGenerated": 0.2, "tldr": "..."}]}`
+}
@@ -0,0 +1,115 @@
+import type { AiGeneratedScore } from "./types"
+
+// Shorter posts carry too little style to judge
+const MIN_WORDS = 25
+// Em-dashes per 100 words typical of generated text
+const EM_DASH_DENSITY = 1
+const EM_DASH_WEIGHT = 0.3
+const STOCK_PHRASE_WEIGHT = 0.15
+const MAX_STOCK_PHRASE_WEIGHT = 0.45
+const EMOJI_BULLET_WEIGHT = 0.3
+const MIN_EMOJI_BULLETS = 3
+const OPENER_WEIGHT = 0.25
+// How much the local signals count next to the LLM's judgment
+const STYLOMETRY_WEIGHT = 0.5
+
+const STOCK_PHRASES = [
+  "let that sink in",
+  "in today's fast-paced",
+  "game-changer",
+  "game changer",
+  "delve",
+  "it's not just about",
+  "unlock the",
+  "secret sauce",
+  "navigate the",
+  "a testament to",
+  "buckle up",
+  "let's dive in",
+  "here's why",
+  "the best part?",
+  "rich tapestry",
+  "in the ever-evolving",
+  "i'm thrilled to",
+  "i'm humbled to"
+]
+
+const OPENER_PATTERN =
+  /^\s*(here's the thing|here is the thing|let's be honest|unpopular opinion|hot take|stop scrolling|read that again)\b/i
+
+// A line starting with an emoji, as in "🚀 Ship faster"
+const EMOJI_BULLET_PATTERN = /^\s*\p{Extended_Pictographic}/u
+
+/**
+ * Scores how much a post's style resembles generated text, from em-dash
+ * density, stock phrases, emoji bullet lists and stock openers.
+ * @param text The post text
+ * @returns The score between 0 and 1 and the signals found
+ */
+export function scoreStylometry(text: string): AiGeneratedScore {
+  const words = text.split(/\s+/).filter(Boolean)
+  if (words.length < MIN_WORDS) {
+    return { score: 0, signals: [] }
+  }
+
+  let score = 0
+  const signals: string[] = []
+
+  const emDashes = text.match(/—/g)?.length ?? 0
+  if (emDashes >= 2 && (emDashes / words.length) * 100 >= EM_DASH_DENSITY) {
+    score += EM_DASH_WEIGHT
+    signals.push(`${emDashes} em-dashes`)
+  }
+
+  const lowerText = text.toLowerCase().replace(/[’‘]/g, "'")
+  const phrases = STOCK_PHRASES.filter((phrase) => lowerText.includes(phrase))
+  if (phrases.length > 0) {
+    score += Math.min(
+      phrases.length * STOCK_PHRASE_WEIGHT,
+      MAX_STOCK_PHRASE_WEIGHT
+    )
+    signals.push(...phrases.map((phrase) => `stock phrase "${phrase}"`))
+  }
+
+  const emojiBullets = text
+    .split("\n")
+    .filter((line) => EMOJI_BULLET_PATTERN.test(line)).length
+  if (emojiBullets >= MIN_EMOJI_BULLETS) {
+    score += EMOJI_BULLET_WEIGHT
+    signals.push("emoji bullet list")
+  }
+
+  const opener = text.replace(/[’‘]/g, "'").match(OPENER_PATTERN)
+  if (opener) {
+    score += OPENER_WEIGHT
+    signals.push(`"${opener[1]}" opener`)
+  }
+
+  return { score: Math.min(score, 1), signals }
+}
+
+/**
+ * Combines the LLM's judgment with the local style signals. The style
+ * signals alone are weak evidence, so they only count for half as much as
+ * the model; without a model judgment they are all there is.
+ * @param text The post text
+ * @param judgment The LLM's likely-AI-generated score, if it gave one
+ * @returns The combined score and the signals behind it
+ */
+export function scoreAiGenerated(
+  text: string,
+  judgment?: number
+): AiGeneratedScore {
+  const stylometry = scoreStylometry(text)
+  if (judgment === undefined) {
+    return stylometry
+  }
+
+  return {
+    score: 1 - (1 - judgment) * (1 - stylometry.score * STYLOMETRY_WEIGHT),
+    signals: [
+      `AI judgment ${Math.round(judgment * 100)}%`,
+      ...stylometry.signals
+    ]
+  }
+}
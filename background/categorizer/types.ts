@@ -0,0 +1,62 @@
+import type { CategorizationError } from "~lib/categorization-errors"
+import type { ToneScores } from "~lib/tone"
+import type { PostImage } from "~lib/vision-settings"
+
+export type PostCategory =
+  | "INFORMATIONAL"
+  | "BRAGGING"
+  | "PROMOTIONAL"
+  | "MEME"
+  | "OTHER"
+  | string // Allow any user-defined category
+
+export interface UserCategories {
+  include: string[]
+  exclude: string[]
+}
+
+/**
+ * How likely a post is AI-generated, and the signals behind the score.
+ */
+export interface AiGeneratedScore {
+  score: number
+  signals: string[]
+}
+
+export interface CategoryResponse {
+  categories: PostCategory[]
+  confidence: number
+  // Likelihood between 0 and 1 that the post belongs to each category
+  scores: Record<string, number>
+  // Why each category was assigned, quoting the phrase or signal used
+  rationales?: Record<string, string>
+  // How the post is written, independent of its categories
+  tone?: ToneScores
+  // The LLM's estimate that the post is AI-generated
+  aiJudgment?: number
+  // The LLM's estimate combined with local style signals
+  aiGenerated?: AiGeneratedScore
+  tldr: string
+  // Why the AI provider failed or was skipped, shown on the post's status
+  // indicator
+  error?: CategorizationError
+}
+
+/**
+ * A single post submitted for categorization.
+ */
+export interface PostInput {
+  // Stable id chosen by the content script (the post hash)
+  id: string
+  text: string
+  authorName?: string
+  // Pictures in the post; alt text is always used, bytes only when opted in
+  images?: PostImage[]
+}
+
+/**
+ * A categorization result tagged with the id of the post it belongs to.
+ */
+export interface CategorizedPost extends CategoryResponse {
+  id: string
+}
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { TONE_DIMENSION_IDS } from "~lib/tone"
+
+import { createAnthropicProvider } from "../providers/anthropic"
+import { getMaxOutputTokens, validateCategorization } from "./validate"
+
+const CATEGORIES = [
+  "INFORMATIONAL",
+  "BRAGGING",
+  "PROMOTIONAL",
+  "MEME",
+  "OTHER",
+  "POLITICS",
+  "SPORTS",
+  "CRYPTO",
+  "HIRING",
+  "ENGAGEMENT_BAIT"
+]
+
+const REASON =
+  "The author lists their recent promotion and thanks their team, with most of the post spent on their own achievements rather than on anything the reader could learn from."
+
+const TLDR =
+  "The author announces a new role at a large company, thanks former colleagues by name and invites readers to reach out about open positions on their new team."
+
+// A full answer for a batch, with every field filled in at the length the
+// prompt asks for
+const buildResponse = (postKeys: string[]): string =>
+  JSON.stringify({
+    results: postKeys.map((id) => ({
+      id,
+      categories: ["BRAGGING", "HIRING"],
+      confidence: 0.87,
+      scores: CATEGORIES.map((category) => ({ category, score: 0.42 })),
+      rationales: ["BRAGGING", "HIRING", "PROMOTIONAL"].map((category) => ({
+        category,
+        reason: REASON
+      })),
+      tone: Object.fromEntries(
+        TONE_DIMENSION_IDS.map((dimension) => [dimension, 0.35])
+      ),
+      aiGenerated: 0.61,
+      tldr: TLDR
+    }))
+  })
+
+// JSON tokenizes at about 4 characters a token; 3 leaves headroom for
+// models that split punctuation and numbers finer
+const estimateTokens = (content: string): number =>
+  Math.ceil(content.length / 3)
+
+const postKeysOf = (count: number): string[] =>
+  Array.from({ length: count }, (_, index) => `p${index + 1}`)
+
+describe("getMaxOutputTokens", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("sizes a single post's response", () => {
+    const maxTokens = getMaxOutputTokens(1, CATEGORIES.length)
+
+    expect(maxTokens).toBe(806)
+    expect(maxTokens).toBeGreaterThan(estimateTokens(buildResponse(["p1"])))
+  })
+
+  it("sizes a 10-post batch past the 1024 token provider default", () => {
+    const maxTokens = getMaxOutputTokens(10, CATEGORIES.length)
+
+    expect(maxTokens).toBe(5756)
+    expect(maxTokens).toBeGreaterThan(
+      estimateTokens(buildResponse(postKeysOf(10)))
+    )
+  })
+
+  it("stays within what the models can return", () => {
+    expect(getMaxOutputTokens(10, 100)).toBe(8192)
+  })
+
+  it("is sent as the request's max_tokens", async () => {
+    const fetch = vi.fn(
+      async (_url: string, _init: RequestInit) =>
+        new Response(JSON.stringify({ content: [] }))
+    )
+    vi.stubGlobal("fetch", fetch)
+    const provider = createAnthropicProvider({
+      provider: "anthropic",
+      apiKey: "test-key",
+      model: "claude-3-5-haiku-latest",
+      baseUrl: "https://api.anthropic.com/v1"
+    })
+
+    for (const count of [1, 10]) {
+      await provider.complete({
+        messages: [{ role: "user", content: "Categorize these posts" }],
+        maxTokens: getMaxOutputTokens(count, CATEGORIES.length)
+      })
+    }
+
+    const sent = fetch.mock.calls.map(
+      ([, init]) => JSON.parse(String(init.body)).max_tokens
+    )
+    expect(sent).toEqual([806, 5756])
+  })
+})
+
+describe("validateCategorization", () => {
+  it("reports a missing post whose key prefixes another post's", () => {
+    const postKeys = postKeysOf(10)
+    const response = JSON.parse(buildResponse(postKeys.slice(1)))
+    response.results[response.results.length - 1].categories = ["UNKNOWN"]
+
+    const { results, errors } = validateCategorization(
+      JSON.stringify(response),
+      postKeys,
+      CATEGORIES
+    )
+
+    expect(results.has("p1")).toBe(false)
+    expect(errors).toContain("Post p1 is missing from the results.")
+    expect(errors).not.toContain("Post p10 is missing from the results.")
+  })
+
+  it("reads an empty category list as OTHER", () => {
+    const { results, errors } = validateCategorization(
+      JSON.stringify({ results: [{ id: "p1", categories: [] }] }),
+      ["p1"],
+      CATEGORIES
+    )
+
+    expect(errors).toEqual([])
+    expect(results.get("p1")?.categories).toEqual(["OTHER"])
+  })
+
+  it("skips malformed entries and score items", () => {
+    const { results, errors } = validateCategorization(
+      JSON.stringify({
+        results: [
+          "p1",
+          {
+            id: "p2",
+            categories: ["MEME"],
+            confidence: 0.9,
+            scores: [null, "MEME", { category: "POLITICS", score: 0.3 }]
+          }
+        ]
+      }),
+      ["p1", "p2"],
+      CATEGORIES
+    )
+
+    expect(errors).toEqual([
+      "A result was not an object.",
+      "Post p1 is missing from the results."
+    ])
+    expect(results.get("p2")?.scores).toEqual({ POLITICS: 0.3, MEME: 0.9 })
+  })
+})
@@ -0,0 +1,430 @@
+import { TONE_DIMENSION_IDS, type ToneScores } from "~lib/tone"
+
+import type { JsonSchemaFormat } from "../providers"
+import type { CategoryResponse } from "./types"
+
+/**
+ * Outcome of checking a model response against the requested schema.
+ */
+export interface ValidationResult {
+  // Valid (possibly repaired) results keyed by post key
+  results: Map<string, CategoryResponse>
+  // Problems that made a post's result unusable
+  errors: string[]
+  // Labels that were mapped onto an allowed category
+  repairs: string[]
+}
+
+// Output tokens a post's result takes besides its scores: categories,
+// rationales, tone, the AI-generated estimate, the summary and JSON syntax
+const OUTPUT_TOKENS_PER_POST = 400
+// A score entry for one allowed category
+const OUTPUT_TOKENS_PER_SCORE = 15
+// Room for the response's own wrapping
+const OUTPUT_TOKENS_BASE = 256
+// The most the supported models can return in one response
+const MAX_OUTPUT_TOKENS = 8192
+
+// Labels this many characters longer or shorter than an allowed category
+// are never treated as a misspelling of it
+const MAX_REPAIR_LENGTH_DIFFERENCE = 3
+const MIN_REPAIR_PREFIX = 5
+
+/**
+ * Builds the strict JSON schema for a categorization response: one entry
+ * per post key, with categories limited to the allowed set.
+ * @param postKeys The keys of the posts in the prompt
+ * @param allowedCategories Every category the model may assign
+ * @returns The schema to send with the request
+ */
+export function buildResponseSchema(
+  postKeys: string[],
+  allowedCategories: string[]
+): JsonSchemaFormat {
+  return {
+    name: "categorize_posts",
+    description: "Record the categories assigned to each post.",
+    schema: {
+      type: "object",
+      properties: {
+        results: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string", enum: postKeys },
+              categories: {
+                type: "array",
+                items: { type: "string", enum: allowedCategories }
+              },
+              confidence: { type: "number" },
+              scores: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    category: { type: "string", enum: allowedCategories },
+                    score: { type: "number" }
+                  },
+                  required: ["category", "score"],
+                  additionalProperties: false
+                }
+              },
+              rationales: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    category: { type: "string", enum: allowedCategories },
+                    reason: { type: "string" }
+                  },
+                  required: ["category", "reason"],
+                  additionalProperties: false
+                }
+              },
+              tone: {
+                type: "object",
+                properties: Object.fromEntries(
+                  TONE_DIMENSION_IDS.map((dimension) => [
+                    dimension,
+                    { type: "number" }
+                  ])
+                ),
+                required: TONE_DIMENSION_IDS,
+                additionalProperties: false
+              },
+              aiGenerated: { type: "number" },
+              tldr: { type: "string" }
+            },
+            required: [
+              "id",
+              "categories",
+              "confidence",
+              "scores",
+              "rationales",
+              "tone",
+              "aiGenerated",
+              "tldr"
+            ],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ["results"],
+      additionalProperties: false
+    }
+  }
+}
+
+/**
+ * Sizes the response to a batch, so a full batch is not cut off mid-JSON.
+ * @param postCount The number of posts in the batch
+ * @param categoryCount The number of categories each post is scored on
+ * @returns The output token limit to request
+ */
+export function getMaxOutputTokens(
+  postCount: number,
+  categoryCount: number
+): number {
+  return Math.min(
+    MAX_OUTPUT_TOKENS,
+    OUTPUT_TOKENS_BASE +
+      postCount *
+        (OUTPUT_TOKENS_PER_POST + categoryCount * OUTPUT_TOKENS_PER_SCORE)
+  )
+}
+
+const normalizeLabel = (label: string): string =>
+  label.toUpperCase().replace(/[^A-Z0-9]/g, "")
+
+/**
+ * Maps a label the model made up onto an allowed category when it is an
+ * unambiguous variant of one (case, punctuation, plural or word ending,
+ * e.g. "Political" -> "POLITICS").
+ * @param label The label returned by the model
+ * @param allowedCategories Every category the model may assign
+ * @returns The allowed category, or null if there is no single close match
+ */
+export function repairCategory(
+  label: string,
+  allowedCategories: string[]
+): string | null {
+  const normalized = normalizeLabel(label)
+  if (!normalized) {
+    return null
+  }
+
+  const exact = allowedCategories.find(
+    (category) => normalizeLabel(category) === normalized
+  )
+  if (exact) {
+    return exact
+  }
+
+  const candidates = allowedCategories.filter((category) => {
+    const target = normalizeLabel(category)
+    if (
+      Math.abs(target.length - normalized.length) > MAX_REPAIR_LENGTH_DIFFERENCE
+    ) {
+      return false
+    }
+
+    let prefix = 0
+    while (
+      prefix < target.length &&
+      prefix < normalized.length &&
+      target[prefix] === normalized[prefix]
+    ) {
+      prefix++
+    }
+
+    const shorter = Math.min(target.length, normalized.length)
+    return (
+      prefix >= Math.min(MIN_REPAIR_PREFIX, shorter) && prefix >= shorter - 2
+    )
+  })
+
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+const clampScore = (value: number): number => Math.min(Math.max(value, 0), 1)
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Reads label and value pairs from either the schema's array of objects or
+ * a plain object keyed by label.
+ * @param raw The raw list or object from the model output
+ * @param labelField The label's field in the array form
+ * @param valueField The value's field in the array form
+ * @returns The pairs, unchecked
+ */
+function readPairs(
+  raw: unknown,
+  labelField: string,
+  valueField: string
+): [unknown, unknown][] {
+  if (Array.isArray(raw)) {
+    return raw
+      .filter(isRecord)
+      .map((item) => [item[labelField], item[valueField]])
+  }
+  return isRecord(raw) ? Object.entries(raw) : []
+}
+
+/**
+ * Reads per-category scores from either the schema's array form or a plain
+ * object, ignoring categories outside the allowed set. Assigned categories
+ * without a score inherit the overall confidence.
+ * @param raw The raw scores from the model output
+ * @param categories The validated categories of the post
+ * @param confidence The validated overall confidence
+ * @param allowedCategories Every category the model may assign
+ * @returns Scores keyed by category
+ */
+function parseScores(
+  raw: unknown,
+  categories: string[],
+  confidence: number,
+  allowedCategories: string[]
+): Record<string, number> {
+  const pairs = readPairs(raw, "category", "score")
+
+  const scores: Record<string, number> = {}
+  for (const [label, score] of pairs) {
+    const category = repairCategory(String(label), allowedCategories)
+    if (category && typeof score === "number" && !Number.isNaN(score)) {
+      scores[category] = clampScore(score)
+    }
+  }
+
+  for (const category of categories) {
+    if (scores[category] === undefined) {
+      scores[category] = confidence
+    }
+  }
+
+  return scores
+}
+
+/**
+ * Reads the tone scores, dropping unknown dimensions and non-numeric values.
+ * @param raw The raw tone object from the model output
+ * @returns Scores keyed by tone dimension
+ */
+function parseTone(raw: unknown): ToneScores {
+  const tone: ToneScores = {}
+  if (!isRecord(raw)) {
+    return tone
+  }
+
+  for (const dimension of TONE_DIMENSION_IDS) {
+    const score = raw[dimension]
+    if (typeof score === "number" && !Number.isNaN(score)) {
+      tone[dimension] = clampScore(score)
+    }
+  }
+
+  return tone
+}
+
+// Rationales are shown on the cover, so keep them short
+const MAX_RATIONALE_LENGTH = 200
+
+/**
+ * Reads the rationale of each assigned category from either the schema's
+ * array form or a plain object.
+ * @param raw The raw rationales from the model output
+ * @param categories The validated categories of the post
+ * @param allowedCategories Every category the model may assign
+ * @returns Rationales keyed by category
+ */
+function parseRationales(
+  raw: unknown,
+  categories: string[],
+  allowedCategories: string[]
+): Record<string, string> {
+  const pairs = readPairs(raw, "category", "reason")
+
+  const rationales: Record<string, string> = {}
+  for (const [label, reason] of pairs) {
+    const category = repairCategory(String(label), allowedCategories)
+    if (
+      category &&
+      categories.includes(category) &&
+      typeof reason === "string" &&
+      reason.trim()
+    ) {
+      rationales[category] = reason.trim().slice(0, MAX_RATIONALE_LENGTH)
+    }
+  }
+
+  return rationales
+}
+
+/**
+ * Parses and checks a model response. Unknown categories are repaired when
+ * possible and dropped otherwise; a post whose entry is missing or ends up
+ * with no valid category is reported as an error. An empty category list
+ * means no category applies, and is read as OTHER rather than re-asked.
+ * @param content The raw model output
+ * @param postKeys The keys of the posts in the prompt
+ * @param allowedCategories Every category the model may assign
+ * @returns The valid results and any problems found
+ */
+export function validateCategorization(
+  content: string,
+  postKeys: string[],
+  allowedCategories: string[]
+): ValidationResult {
+  const results = new Map<string, CategoryResponse>()
+  const errors: string[] = []
+  const repairs: string[] = []
+  // Posts with an error already, which need no "missing" error too
+  const reportedKeys = new Set<string>()
+  const reportPost = (key: string, error: string) => {
+    errors.push(error)
+    reportedKeys.add(key)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch (error) {
+    return { results, errors: ["The response was not valid JSON."], repairs }
+  }
+
+  // Some models answer a single post without the wrapper
+  const entries: unknown[] = !isRecord(parsed)
+    ? []
+    : Array.isArray(parsed.results)
+      ? parsed.results
+      : postKeys.length === 1 && parsed.categories
+        ? [{ ...parsed, id: postKeys[0] }]
+        : []
+
+  if (entries.length === 0) {
+    errors.push('The response had no "results" array.')
+  }
+
+  for (const entry of entries) {
+    if (!isRecord(entry)) {
+      errors.push("A result was not an object.")
+      continue
+    }
+
+    const key = String(entry.id ?? "")
+    if (!postKeys.includes(key)) {
+      errors.push(`Unknown post id "${key}".`)
+      continue
+    }
+
+    if (!Array.isArray(entry.categories)) {
+      reportPost(key, `Post ${key} has no "categories" array.`)
+      continue
+    }
+
+    // No category applies
+    const labels: unknown[] =
+      entry.categories.length > 0 ? entry.categories : ["OTHER"]
+
+    const categories: string[] = []
+    for (const label of labels) {
+      const category = repairCategory(String(label), allowedCategories)
+      if (!category) {
+        reportPost(
+          key,
+          `Post ${key} used "${label}", which is not an allowed category.`
+        )
+      } else {
+        if (category !== label) {
+          repairs.push(`${label} -> ${category}`)
+        }
+        if (!categories.includes(category)) {
+          categories.push(category)
+        }
+      }
+    }
+
+    if (categories.length === 0) {
+      reportPost(key, `Post ${key} has no allowed categories.`)
+      continue
+    }
+
+    // Validate confidence is a number between 0 and 1
+    const confidence =
+      typeof entry.confidence === "number" ? clampScore(entry.confidence) : 0.5
+
+    results.set(key, {
+      categories,
+      confidence,
+      scores: parseScores(
+        entry.scores,
+        categories,
+        confidence,
+        allowedCategories
+      ),
+      rationales: parseRationales(
+        entry.rationales,
+        categories,
+        allowedCategories
+      ),
+      tone: parseTone(entry.tone),
+      aiJudgment:
+        typeof entry.aiGenerated === "number" &&
+        !Number.isNaN(entry.aiGenerated)
+          ? clampScore(entry.aiGenerated)
+          : undefined,
+      tldr: typeof entry.tldr === "string" ? entry.tldr : "No summary available"
+    })
+  }
+
+  for (const key of postKeys) {
+    if (!results.has(key) && !reportedKeys.has(key)) {
+      errors.push(`Post ${key} is missing from the results.`)
+    }
+  }
+
+  return { results, errors, repairs }
+}
@@ -1,5 +1,16 @@
-export { }
+import { startBroadcaster } from "./broadcaster"
+import { startProfileShortcut } from "./profile-shortcut"
+import { startScheduler } from "./scheduler"
 
 console.log(
 	"Live now; make now always the most precious time. Now will never come again."
 )
+
+// Push settings changes to every open feed tab
+startBroadcaster()
+
+// Switch filter profiles on the user's schedule
+startScheduler()
+
+// Cycle through filter profiles from the keyboard
+startProfileShortcut()
@@ -0,0 +1,57 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+
+import {
+  checkRequest,
+  checkResponse,
+  type HandlerErrorResponse,
+  type MessageName,
+  type MessageRequest,
+  type MessageResponse,
+  type ProtocolErrorResponse
+} from "~lib/messages"
+
+/**
+ * Wraps a message handler so it only sees requests that match the message
+ * contract. Mismatched requests, such as those from a content script left
+ * over from an older version, are answered with a protocol error, and a
+ * handler that throws is answered with a handler error, so the sender never
+ * waits for a response that is not coming.
+ * @param name The message name, as in lib/messages.ts
+ * @param handle Answers a valid request; the raw request tells which tab
+ *   sent it
+ * @returns The Plasmo message handler
+ */
+export function createMessageHandler<N extends MessageName>(
+  name: N,
+  handle: (
+    body: MessageRequest<N>,
+    req: PlasmoMessaging.Request
+  ) => Promise<MessageResponse<N>>
+): PlasmoMessaging.MessageHandler {
+  return async (req, res) => {
+    const problem = checkRequest(name, req.body)
+    if (problem) {
+      console.warn(`⚠️ [Messages] Rejected "${name}": ${problem}`)
+      res.send({ protocolError: problem } satisfies ProtocolErrorResponse)
+      return
+    }
+
+    const { protocolVersion, ...body } = req.body
+    try {
+      const response = await handle(body as MessageRequest<N>, req)
+
+      const responseProblem = checkResponse(name, response)
+      if (responseProblem) {
+        console.error(
+          `❌ [Messages] Handler for "${name}" broke the contract: ${responseProblem}`
+        )
+      }
+      res.send(response)
+    } catch (error) {
+      console.error(`❌ [Messages] Handler for "${name}" failed:`, error)
+      res.send({
+        handlerError: error instanceof Error ? error.message : String(error)
+      } satisfies HandlerErrorResponse)
+    }
+  }
+}
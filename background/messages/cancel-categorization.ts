@@ -0,0 +1,9 @@
+import { cancelRequest } from "../cancellation"
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler(
+  "cancel-categorization",
+  async ({ requestId }) => ({ cancelled: cancelRequest(requestId) })
+)
+
+export default handler
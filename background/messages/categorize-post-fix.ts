@@ -1,87 +0,0 @@
-// This is a patch file to fix the "Cannot read properties of undefined (reading 'map')" error
-// by ensuring the background script handler always returns a valid response
-
-import type { PlasmoMessaging } from "@plasmohq/messaging"
-import { Storage } from "@plasmohq/storage"
-
-// This is a drop-in replacement for the handler in categorize-post.ts
-// It adds additional error handling and ensures a valid response is always sent
-
-/*
- * IMPORTANT: This is a patch file that shows the pattern for proper error handling.
- * To implement this fix:
- * 
- * 1. Copy your existing categorizeWithGPT4 function from categorize-post.ts
- * 2. Replace the handler in categorize-post.ts with this improved version
- * 3. Make sure to properly import any dependencies
- */
-
-// Example implementation - replace with your actual handler
-const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
-	try {
-		const { text, userCategories, authorName } = req.body
-
-		console.log("Categorizing post:", text?.substring(0, 100) + (text?.length > 100 ? "..." : ""))
-		console.log("Author:", authorName || "Unknown")
-		console.log("User categories received:", userCategories)
-
-		if (!text) {
-			return res.send({
-				categories: ["OTHER"],
-				confidence: 0,
-				tldr: "No text provided"
-			})
-		}
-
-		try {
-			// Call your existing categorizeWithGPT4 function
-			// Replace this comment with your actual call to categorizeWithGPT4
-			// const result = await categorizeWithGPT4(text, userCategories, authorName)
-
-			// For demonstration purposes only - replace with actual implementation
-			const result = {
-				categories: ["DEMO"],
-				confidence: 1,
-				tldr: "This is a demonstration result"
-			}
-
-			// Validate the result before sending
-			if (!result || !result.categories || !Array.isArray(result.categories)) {
-				console.error("Invalid result from categorization function:", result)
-				return res.send({
-					categories: ["ERROR"],
-					confidence: 0,
-					tldr: "Error processing content: Invalid result format"
-				})
-			}
-
-			// Send the validated result
-			res.send({
-				categories: result.categories,
-				confidence: result.confidence || 0,
-				tldr: result.tldr || "No summary available"
-			})
-		} catch (processingError) {
-			console.error("Error processing post:", processingError)
-			// Send a fallback response on error
-			res.send({
-				categories: ["ERROR"],
-				confidence: 0,
-				tldr: `Error processing content: ${processingError.message || "Unknown error"}`
-			})
-		}
-	} catch (error) {
-		console.error("Critical error in handler:", error)
-		// Send a fallback response on critical error
-		res.send({
-			categories: ["ERROR"],
-			confidence: 0,
-			tldr: "Critical error in message handler"
-		})
-	}
-}
-
-export default handler
-
-// Note: You'll need to import your existing categorizeWithGPT4 function
-// or copy it from categorize-post.ts 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { broadcast } from "../broadcaster"
+import { clearCache } from "../categorizer"
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler("clear-categorization-cache", async () => {
+  try {
+    await clearCache()
+    // Open tabs drop the results they kept from the old cache
+    await broadcast("cache-invalidated", { timestamp: Date.now() })
+    return { success: true }
+  } catch (error) {
+    console.error("Error clearing categorization cache:", error)
+    return { success: false, error: "Failed to clear cache" }
+  }
+})
+
+export default handler
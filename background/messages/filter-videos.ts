@@ -1,10 +1,11 @@
-import type { PlasmoMessaging } from "@plasmohq/messaging"
 import { Storage } from "@plasmohq/storage"
 
-const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler("filter-videos", async (body) => {
   console.log("Filtering videos")
-  console.log(req.body)
-  const { videos } = req.body
+  console.log(body)
+  const { videos } = body
   console.log(videos)
 
   const storage = new Storage({ area: "local" })
@@ -12,8 +13,7 @@ const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
 
   if (!studentId) {
     console.error("No student ID found")
-    res.send({ error: "No student ID found" })
-    return
+    return { error: "No student ID found" }
   }
 
   try {
@@ -34,11 +34,11 @@ const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
 
     const result = await response.json()
     console.log(result)
-    res.send(result)
+    return result
   } catch (error) {
     console.error("Error filtering videos:", error)
-    res.send({ error: "Failed to filter videos" })
+    return { error: "Failed to filter videos" }
   }
-}
+})
 
 export default handler
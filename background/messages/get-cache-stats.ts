@@ -0,0 +1,8 @@
+import { getCacheSize } from "../categorizer"
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler("get-cache-stats", async () => ({
+  entries: await getCacheSize()
+}))
+
+export default handler
@@ -0,0 +1,8 @@
+import { createMessageHandler } from "../message-handler"
+import { getQueueState } from "../request-queue"
+
+const handler = createMessageHandler("get-queue-state", async () =>
+  getQueueState()
+)
+
+export default handler
@@ -0,0 +1,12 @@
+import { registerTab } from "../broadcaster"
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler("register-tab", async (_, req) => {
+  const tabId = req.sender?.tab?.id ?? null
+  if (tabId !== null) {
+    registerTab(tabId)
+  }
+  return { tabId }
+})
+
+export default handler
@@ -0,0 +1,18 @@
+import { broadcast, sendToTab } from "../broadcaster"
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler(
+  "relay-to-content",
+  async ({ action, data, tabId }) => {
+    if (tabId === undefined) {
+      return broadcast(action, data)
+    }
+
+    const delivered = await sendToTab(tabId, action, data)
+    return delivered
+      ? { delivered: [tabId], failed: [] }
+      : { delivered: [], failed: [tabId] }
+  }
+)
+
+export default handler
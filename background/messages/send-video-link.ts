@@ -1,15 +1,15 @@
-import type { PlasmoMessaging } from "@plasmohq/messaging"
 import { Storage } from "@plasmohq/storage"
 
-const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
+import { createMessageHandler } from "../message-handler"
+
+const handler = createMessageHandler("send-video-link", async (body) => {
   const storage = new Storage({ area: "local" })
   const studentId = await storage.get("selectedStudentId")
   if (!studentId) {
-    res.send({ success: false, error: "No student selected" })
-    return
+    return { success: false, error: "No student selected" }
   }
 
-  const { url, title } = req.body
+  const { url, title } = body
 
   try {
     const response = await fetch("http://localhost:3000/api/videos/add", {
@@ -30,11 +30,11 @@ const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
     }
 
     const result = await response.json()
-    res.send({ success: true, data: result })
+    return { success: true, data: result }
   } catch (error) {
     console.error("Error sending video link:", error)
-    res.send({ success: false, error: "Failed to send video link" })
+    return { success: false, error: "Failed to send video link" }
   }
-}
+})
 
 export default handler
@@ -0,0 +1,38 @@
+import { Storage } from "@plasmohq/storage"
+
+import { addFeedbackExample } from "~lib/feedback"
+
+import { createMessageHandler } from "../message-handler"
+
+const storage = new Storage({ area: "local" })
+
+const toCategories = (values: string[]): string[] => [
+  ...new Set(values.map((value) => value.toUpperCase()))
+]
+
+const handler = createMessageHandler("submit-feedback", async (body) => {
+  const { postId, text, authorName, predicted, confirmed, rejected } = body
+
+  if (!postId || !text) {
+    return { success: false, error: "postId and text are required" }
+  }
+
+  try {
+    const examples = await addFeedbackExample(storage, {
+      postId,
+      text,
+      authorName,
+      predicted: toCategories(predicted),
+      confirmed: toCategories(confirmed),
+      rejected: toCategories(rejected),
+      createdAt: Date.now()
+    })
+    console.log(`📝 [Feedback] Stored correction, ${examples.length} total`)
+    return { success: true, examples: examples.length }
+  } catch (error) {
+    console.error("❌ [Feedback] Error storing correction:", error)
+    return { success: false, error: String(error) }
+  }
+})
+
+export default handler
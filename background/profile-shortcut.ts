@@ -0,0 +1,47 @@
+import { Storage } from "@plasmohq/storage"
+
+import {
+  getNextProfileId,
+  loadActiveProfileId,
+  loadProfiles,
+  switchProfile
+} from "~lib/profiles"
+
+// Declared under "commands" in the manifest
+const NEXT_PROFILE_COMMAND = "next-profile"
+
+const storage = new Storage()
+const profileStorage = new Storage({ area: "local" })
+
+/**
+ * Switches to the profile after the active one.
+ */
+async function switchToNextProfile(): Promise<void> {
+  const [profiles, activeProfileId] = await Promise.all([
+    loadProfiles(profileStorage),
+    loadActiveProfileId(storage)
+  ])
+  const profileId = getNextProfileId(profiles, activeProfileId)
+  if (!profileId) {
+    console.log("⌨️ [Profiles] No profiles to switch to")
+    return
+  }
+
+  const profile = await switchProfile(storage, profileStorage, profileId)
+  if (profile) {
+    console.log(`⌨️ [Profiles] Switched to "${profile.name}"`)
+  }
+}
+
+/**
+ * Cycles through the profiles with the keyboard shortcut.
+ */
+export function startProfileShortcut(): void {
+  chrome.commands.onCommand.addListener((command) => {
+    if (command === NEXT_PROFILE_COMMAND) {
+      switchToNextProfile().catch((error) =>
+        console.error("❌ [Profiles] Error switching profile:", error)
+      )
+    }
+  })
+}
@@ -0,0 +1,134 @@
+import type { ProviderSettings } from "~lib/llm-settings"
+
+import { createProviderError } from "./errors"
+import type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider
+} from "./types"
+
+const ANTHROPIC_VERSION = "2023-06-01"
+
+/**
+ * Converts a message to the Anthropic format, turning attached images into
+ * base64 image blocks.
+ * @param message The message to convert
+ * @returns The message for the request body
+ */
+function toAnthropicMessage({ role, content, images }: ChatMessage) {
+  if (!images?.length) {
+    return { role, content }
+  }
+
+  return {
+    role,
+    content: [
+      { type: "text", text: content },
+      ...images.flatMap((image) => [
+        ...(image.label ? [{ type: "text", text: image.label }] : []),
+        {
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: image.mediaType,
+            data: image.data
+          }
+        }
+      ])
+    ]
+  }
+}
+
+/**
+ * Creates a provider for the Anthropic Messages API.
+ * @param settings The key, model and base URL to use
+ * @returns The provider
+ */
+export function createAnthropicProvider(
+  settings: ProviderSettings
+): LLMProvider {
+  const complete = async (
+    request: CompletionRequest
+  ): Promise<CompletionResult> => {
+    // Anthropic takes the system prompt separately from the conversation
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n")
+    const messages = request.messages.filter(
+      (message) => message.role !== "system"
+    )
+
+    // The conversation has to start with a user turn
+    if (messages[0]?.role !== "user") {
+      messages.unshift({
+        role: "user",
+        content: request.json
+          ? "Respond with the JSON object only."
+          : "Respond to the instructions above."
+      })
+    }
+
+    const response = await fetch(`${settings.baseUrl}/messages`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": settings.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "anthropic-dangerous-direct-browser-access": "true"
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        system,
+        messages: messages.map(toAnthropicMessage),
+        temperature: request.temperature ?? 0.2,
+        max_tokens: request.maxTokens ?? 1024,
+        // Structured output is done by forcing a call to a tool whose input
+        // schema is the requested JSON schema
+        ...(request.jsonSchema
+          ? {
+              tools: [
+                {
+                  name: request.jsonSchema.name,
+                  description:
+                    request.jsonSchema.description ??
+                    "Record the structured response.",
+                  input_schema: request.jsonSchema.schema
+                }
+              ],
+              tool_choice: { type: "tool", name: request.jsonSchema.name }
+            }
+          : {})
+      })
+    })
+
+    if (!response.ok) {
+      throw await createProviderError("anthropic", response)
+    }
+
+    const data = await response.json()
+    const blocks = Array.isArray(data.content) ? data.content : []
+    const toolUse = blocks.find((block) => block.type === "tool_use")
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks
+          .filter((block) => block.type === "text")
+          .map((block) => block.text)
+          .join("")
+
+    return {
+      content,
+      model: data.model || settings.model,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.input_tokens ?? 0,
+            outputTokens: data.usage.output_tokens ?? 0
+          }
+        : undefined
+    }
+  }
+
+  return { id: "anthropic", model: settings.model, complete }
+}
@@ -0,0 +1,75 @@
+import type { ProviderId } from "~lib/llm-settings"
+
+/**
+ * Error thrown when a provider responds with a non-OK status.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ProviderId,
+    readonly status?: number,
+    // Delay requested by the server through the Retry-After header
+    readonly retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = "ProviderError"
+  }
+}
+
+/**
+ * Error thrown when the selected provider is missing its API key or model.
+ */
+export class ProviderConfigError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ProviderId
+  ) {
+    super(message)
+    this.name = "ProviderConfigError"
+  }
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an
+ * HTTP date.
+ * @param header The raw header value
+ * @returns The delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined
+  }
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000
+  }
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0)
+  }
+
+  return undefined
+}
+
+/**
+ * Builds a ProviderError from a failed response.
+ * @param provider The provider that made the request
+ * @param response The non-OK response
+ * @returns The error to throw
+ */
+export async function createProviderError(
+  provider: ProviderId,
+  response: Response
+): Promise<ProviderError> {
+  const errorData = await response.text().catch(() => "")
+  console.error(`${provider} API error:`, errorData)
+
+  return new ProviderError(
+    `${provider} API error: ${response.status} ${response.statusText}`,
+    provider,
+    response.status,
+    parseRetryAfter(response.headers.get("retry-after"))
+  )
+}
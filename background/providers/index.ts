@@ -0,0 +1,55 @@
+import { Storage } from "@plasmohq/storage"
+
+import {
+  isProviderConfigured,
+  loadProviderSettings,
+  PROVIDER_OPTIONS,
+  type ProviderId,
+  type ProviderSettings
+} from "~lib/llm-settings"
+
+import { createAnthropicProvider } from "./anthropic"
+import { ProviderConfigError } from "./errors"
+import { createOpenAIProvider } from "./openai"
+import { createOpenAICompatibleProvider } from "./openai-compatible"
+import type { LLMProvider } from "./types"
+
+export type {
+  ChatImage,
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  JsonSchemaFormat,
+  LLMProvider,
+  TokenUsage
+} from "./types"
+export { ProviderConfigError, ProviderError } from "./errors"
+
+const storage = new Storage()
+
+const providerFactories: Record<
+  ProviderId,
+  (settings: ProviderSettings) => LLMProvider
+> = {
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  "openai-compatible": (settings) => createOpenAICompatibleProvider(settings)
+}
+
+/**
+ * Builds the provider selected in the options page.
+ * @returns The active provider
+ * @throws If the provider is missing a required API key or model
+ */
+export async function getActiveProvider(): Promise<LLMProvider> {
+  const settings = await loadProviderSettings(storage)
+
+  if (!isProviderConfigured(settings)) {
+    throw new ProviderConfigError(
+      `${PROVIDER_OPTIONS[settings.provider].label} is not configured. Please set it in the extension options.`,
+      settings.provider
+    )
+  }
+
+  return providerFactories[settings.provider](settings)
+}
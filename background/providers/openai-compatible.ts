@@ -0,0 +1,110 @@
+import type { ProviderId, ProviderSettings } from "~lib/llm-settings"
+
+import { createProviderError } from "./errors"
+import type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider
+} from "./types"
+
+function getResponseFormat(request: CompletionRequest) {
+  if (request.jsonSchema) {
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: request.jsonSchema.name,
+          description: request.jsonSchema.description,
+          schema: request.jsonSchema.schema,
+          strict: true
+        }
+      }
+    }
+  }
+
+  return request.json ? { response_format: { type: "json_object" } } : {}
+}
+
+/**
+ * Converts a message to the OpenAI format, turning attached images into
+ * data URLs in a content array.
+ * @param message The message to convert
+ * @returns The message for the request body
+ */
+function toOpenAIMessage({ role, content, images }: ChatMessage) {
+  if (!images?.length) {
+    return { role, content }
+  }
+
+  return {
+    role,
+    content: [
+      { type: "text", text: content },
+      ...images.flatMap((image) => [
+        ...(image.label ? [{ type: "text", text: image.label }] : []),
+        {
+          type: "image_url",
+          image_url: { url: `data:${image.mediaType};base64,${image.data}` }
+        }
+      ])
+    ]
+  }
+}
+
+/**
+ * Creates a provider for any server that implements the OpenAI
+ * `/chat/completions` endpoint (OpenAI itself, Ollama, llama.cpp, LM Studio).
+ * @param settings The base URL, key and model to use
+ * @param id The provider id to report in errors and results
+ * @returns The provider
+ */
+export function createOpenAICompatibleProvider(
+  settings: ProviderSettings,
+  id: ProviderId = "openai-compatible"
+): LLMProvider {
+  const complete = async (
+    request: CompletionRequest
+  ): Promise<CompletionResult> => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json"
+    }
+
+    // Local servers usually run without auth
+    if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`
+    }
+
+    const response = await fetch(`${settings.baseUrl}/chat/completions`, {
+      method: "POST",
+      signal: request.signal,
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: request.messages.map(toOpenAIMessage),
+        temperature: request.temperature ?? 0.2,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        ...getResponseFormat(request)
+      })
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(id, response)
+    }
+
+    const data = await response.json()
+
+    return {
+      content: data.choices?.[0]?.message?.content ?? "",
+      model: data.model || settings.model,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.prompt_tokens ?? 0,
+            outputTokens: data.usage.completion_tokens ?? 0
+          }
+        : undefined
+    }
+  }
+
+  return { id, model: settings.model, complete }
+}
@@ -0,0 +1,13 @@
+import type { ProviderSettings } from "~lib/llm-settings"
+
+import { createOpenAICompatibleProvider } from "./openai-compatible"
+import type { LLMProvider } from "./types"
+
+/**
+ * Creates a provider for the hosted OpenAI API.
+ * @param settings The key, model and base URL to use
+ * @returns The provider
+ */
+export function createOpenAIProvider(settings: ProviderSettings): LLMProvider {
+  return createOpenAICompatibleProvider(settings, "openai")
+}
@@ -0,0 +1,65 @@
+import type { ProviderId } from "~lib/llm-settings"
+
+/**
+ * An image attached to a user message, already fetched by the background.
+ */
+export interface ChatImage {
+  // Where the image came from; identifies it without the bytes
+  url: string
+  mediaType: string
+  // Base64 encoded image bytes
+  data: string
+  // Text placed right before the image, e.g. which post it belongs to
+  label?: string
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+  // Only sent on user messages, to vision-capable models
+  images?: ChatImage[]
+}
+
+/**
+ * A named JSON schema for structured output. Schemas must list every
+ * property as required and disallow additional properties so they work
+ * with OpenAI's strict mode.
+ */
+export interface JsonSchemaFormat {
+  name: string
+  description?: string
+  schema: Record<string, unknown>
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  // Ask the backend for a JSON object instead of free text
+  json?: boolean
+  // Constrain the JSON object to this schema where the backend supports it
+  jsonSchema?: JsonSchemaFormat
+  // Aborts the HTTP request
+  signal?: AbortSignal
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CompletionResult {
+  content: string
+  model: string
+  // Missing when the backend does not report token counts
+  usage?: TokenUsage
+}
+
+/**
+ * A chat-completion backend the categorizer can send prompts to.
+ */
+export interface LLMProvider {
+  id: ProviderId
+  model: string
+  complete: (request: CompletionRequest) => Promise<CompletionResult>
+}
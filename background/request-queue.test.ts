@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+type Queue = typeof import("./request-queue")
+type Errors = typeof import("./providers/errors")
+
+// The queue keeps its state at module level, so each test loads it afresh
+let queue: Queue
+let ProviderError: Errors["ProviderError"]
+
+beforeEach(async () => {
+  vi.useFakeTimers()
+  vi.resetModules()
+  queue = await import("./request-queue")
+  ProviderError = (await import("./providers/errors")).ProviderError
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+// A request that stays in flight until it is resolved by hand
+const deferred = () => {
+  let resolve: (value: string) => void = () => {}
+  const promise = new Promise<string>((done) => (resolve = done))
+  return { promise, resolve }
+}
+
+describe("enqueueRequest", () => {
+  it("runs at most two requests at once", async () => {
+    const requests = [deferred(), deferred(), deferred()]
+    const results = requests.map(({ promise }, index) =>
+      queue.enqueueRequest(`key-${index}`, () => promise)
+    )
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queue.getQueueState()).toMatchObject({ active: 2, queued: 1 })
+
+    requests[0].resolve("first")
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queue.getQueueState()).toMatchObject({ active: 2, queued: 0 })
+
+    requests[1].resolve("second")
+    requests[2].resolve("third")
+    await expect(Promise.all(results)).resolves.toEqual([
+      "first",
+      "second",
+      "third"
+    ])
+    expect(queue.getQueueState().status).toBe("idle")
+  })
+
+  it("allows a burst of five, then one request every 1.5 seconds", async () => {
+    const run = vi.fn(async () => "done")
+    for (let index = 0; index < 7; index++) {
+      queue.enqueueRequest(`key-${index}`, run)
+    }
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(run).toHaveBeenCalledTimes(5)
+
+    await vi.advanceTimersByTimeAsync(1499)
+    expect(run).toHaveBeenCalledTimes(5)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(run).toHaveBeenCalledTimes(6)
+
+    await vi.advanceTimersByTimeAsync(1500)
+    expect(run).toHaveBeenCalledTimes(7)
+  })
+
+  it("waits out Retry-After on a 429 and holds back other requests", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    const limited = vi
+      .fn()
+      .mockRejectedValueOnce(
+        new ProviderError("Too many requests", "openai", 429, 2000)
+      )
+      .mockResolvedValueOnce("retried")
+    const other = vi.fn(async () => "other")
+
+    const result = queue.enqueueRequest("limited", limited)
+    await vi.advanceTimersByTimeAsync(0)
+    queue.enqueueRequest("other", other)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(queue.getQueueState()).toMatchObject({
+      status: "rate-limited",
+      retrying: 1,
+      queued: 1
+    })
+    expect(other).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(limited).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(result).resolves.toBe("retried")
+    expect(limited).toHaveBeenCalledTimes(2)
+    expect(other).toHaveBeenCalledTimes(1)
+  })
+
+  it("backs off exponentially on server errors", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(new ProviderError("Unavailable", "openai", 503))
+      .mockRejectedValueOnce(new ProviderError("Unavailable", "openai", 503))
+      .mockResolvedValueOnce("recovered")
+
+    const result = queue.enqueueRequest("key", run)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(run).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(run).toHaveBeenCalledTimes(2)
+
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(run).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(result).resolves.toBe("recovered")
+    expect(run).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after four retries", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    const error = new ProviderError("Unavailable", "openai", 500, 10)
+    const run = vi.fn().mockRejectedValue(error)
+
+    const result = queue.enqueueRequest("key", run)
+    const settled = expect(result).rejects.toBe(error)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await settled
+    expect(run).toHaveBeenCalledTimes(5)
+  })
+
+  it("does not retry other errors", async () => {
+    const error = new ProviderError("Bad request", "openai", 400)
+    const run = vi.fn().mockRejectedValue(error)
+
+    await expect(queue.enqueueRequest("key", run)).rejects.toBe(error)
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it("merges identical pending requests", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const request = deferred()
+    const run = vi.fn(() => request.promise)
+
+    const first = queue.enqueueRequest("same", run)
+    const second = queue.enqueueRequest("same", run)
+    request.resolve("shared")
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      "shared",
+      "shared"
+    ])
+    expect(run).toHaveBeenCalledTimes(1)
+
+    // Once settled, the key starts a new request
+    await queue.enqueueRequest("same", async () => "fresh")
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it("aborts the request once every caller has given up", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    let requestSignal: AbortSignal | undefined
+    const run = vi.fn((signal: AbortSignal) => {
+      requestSignal = signal
+      return deferred().promise
+    })
+    const callers = [new AbortController(), new AbortController()]
+
+    const results = callers.map(({ signal }) =>
+      queue.enqueueRequest("same", run, signal)
+    )
+    await vi.advanceTimersByTimeAsync(0)
+
+    callers[0].abort()
+    await expect(results[0]).rejects.toMatchObject({ name: "AbortError" })
+    expect(requestSignal?.aborted).toBe(false)
+
+    callers[1].abort()
+    await expect(results[1]).rejects.toMatchObject({ name: "AbortError" })
+    expect(requestSignal?.aborted).toBe(true)
+  })
+
+  it("drops a queued request nobody is waiting for", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const blockers = [deferred(), deferred()]
+    blockers.forEach(({ promise }, index) =>
+      queue.enqueueRequest(`blocker-${index}`, () => promise)
+    )
+    const run = vi.fn(async () => "never")
+    const caller = new AbortController()
+
+    const result = queue.enqueueRequest("queued", run, caller.signal)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queue.getQueueState().queued).toBe(1)
+
+    caller.abort()
+    await expect(result).rejects.toMatchObject({ name: "AbortError" })
+    expect(queue.getQueueState().queued).toBe(0)
+
+    blockers.forEach(({ resolve }) => resolve("done"))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it("rejects a caller whose signal is already aborted", async () => {
+    const run = vi.fn(async () => "never")
+
+    await expect(
+      queue.enqueueRequest("key", run, AbortSignal.abort())
+    ).rejects.toMatchObject({ name: "AbortError" })
+    expect(run).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,272 @@
+import { ProviderError } from "./providers"
+
+// At most this many provider requests run at the same time
+const MAX_CONCURRENT_REQUESTS = 2
+// Token bucket: short bursts up to the capacity, then a steady refill rate
+const BUCKET_CAPACITY = 5
+const REFILL_INTERVAL_MS = 1500
+// Retry policy for 429 and 5xx responses
+const MAX_RETRIES = 4
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 60_000
+
+export type QueueStatus = "idle" | "busy" | "rate-limited"
+
+/**
+ * Snapshot of the queue shared with the popup and content scripts.
+ */
+export interface QueueState {
+  status: QueueStatus
+  // Requests waiting for a slot or a token
+  queued: number
+  // Requests currently talking to the provider
+  active: number
+  // Requests waiting out a backoff before retrying
+  retrying: number
+  // When the provider asked us to back off until, if it did
+  rateLimitedUntil: number | null
+}
+
+interface QueuedRequest<T> {
+  run: () => Promise<T>
+  resolve: (value: T) => void
+  reject: (error: unknown) => void
+  attempt: number
+  // Aborted once every caller waiting on the request has given up
+  signal: AbortSignal
+}
+
+interface PendingRequest<T> {
+  promise: Promise<T>
+  controller: AbortController
+  // Callers still waiting; callers without a signal never give up
+  callers: number
+}
+
+// Requests of every result type; enqueueRequest restores the type
+const queue: QueuedRequest<unknown>[] = []
+// Identical requests share one promise while the first is pending
+const pendingByKey = new Map<string, PendingRequest<unknown>>()
+
+let activeCount = 0
+let retryingCount = 0
+let tokens = BUCKET_CAPACITY
+let lastRefill = Date.now()
+let pausedUntil = 0
+let pumpTimer: ReturnType<typeof setTimeout> | null = null
+
+function refillTokens(now: number): void {
+  const refilled = Math.floor((now - lastRefill) / REFILL_INTERVAL_MS)
+  if (refilled > 0) {
+    tokens = Math.min(BUCKET_CAPACITY, tokens + refilled)
+    lastRefill += refilled * REFILL_INTERVAL_MS
+  }
+  if (tokens === BUCKET_CAPACITY) {
+    lastRefill = now
+  }
+}
+
+function schedulePump(delay: number): void {
+  if (pumpTimer !== null) {
+    return
+  }
+  pumpTimer = setTimeout(() => {
+    pumpTimer = null
+    pump()
+  }, delay)
+}
+
+/**
+ * Works out how long to wait before retrying a failed request.
+ * @param error The error the request failed with
+ * @param attempt How many times the request has already been retried
+ * @returns The delay in milliseconds, or null if it should not be retried
+ */
+function getRetryDelay(error: unknown, attempt: number): number | null {
+  if (!(error instanceof ProviderError) || attempt >= MAX_RETRIES) {
+    return null
+  }
+
+  const retryable =
+    error.status === 429 || (error.status !== undefined && error.status >= 500)
+  if (!retryable) {
+    return null
+  }
+
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_BACKOFF_MS)
+  }
+
+  // Exponential backoff with jitter so parallel retries spread out
+  const backoff = BASE_BACKOFF_MS * 2 ** attempt
+  return Math.min(backoff + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS)
+}
+
+/**
+ * Creates the error cancelled requests are rejected with.
+ * @returns An AbortError
+ */
+export function createAbortError(): DOMException {
+  return new DOMException("Request cancelled", "AbortError")
+}
+
+/**
+ * @param error Any thrown value
+ * @returns Whether the error comes from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+async function execute<T>(request: QueuedRequest<T>): Promise<void> {
+  activeCount++
+
+  try {
+    request.resolve(await request.run())
+  } catch (error) {
+    const delay = request.signal.aborted
+      ? null
+      : getRetryDelay(error, request.attempt)
+
+    if (delay === null) {
+      request.reject(error)
+    } else {
+      console.warn(
+        `⏳ [Queue] Request failed (${(error as ProviderError).status}), retry ${request.attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`
+      )
+
+      // A 429 applies to the whole API key, so hold back every request
+      if ((error as ProviderError).status === 429) {
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay)
+      }
+
+      request.attempt++
+      retryingCount++
+      setTimeout(() => {
+        retryingCount--
+        if (request.signal.aborted) {
+          request.reject(createAbortError())
+          return
+        }
+        // Retries go to the front so they are not starved by new work
+        queue.unshift(request)
+        pump()
+      }, delay)
+    }
+  } finally {
+    activeCount--
+    pump()
+  }
+}
+
+function pump(): void {
+  while (activeCount < MAX_CONCURRENT_REQUESTS && queue.length > 0) {
+    const now = Date.now()
+
+    if (now < pausedUntil) {
+      schedulePump(pausedUntil - now)
+      return
+    }
+
+    refillTokens(now)
+    if (tokens < 1) {
+      schedulePump(lastRefill + REFILL_INTERVAL_MS - now)
+      return
+    }
+
+    tokens--
+    execute(queue.shift())
+  }
+}
+
+/**
+ * Runs a provider request through the shared queue, which limits
+ * concurrency, rate limits and retries 429/5xx responses with backoff.
+ *
+ * A caller that aborts its signal is rejected with an AbortError right
+ * away. The request itself is dropped from the queue, or its fetch
+ * aborted, once every caller sharing it has aborted.
+ * @param key Identifies the request; identical pending requests are merged
+ * @param run Performs the request, passing the signal on to fetch
+ * @param signal Aborts this caller's interest in the request
+ * @returns The result of the request
+ */
+export function enqueueRequest<T>(
+  key: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError())
+  }
+
+  let pending = pendingByKey.get(key) as PendingRequest<T> | undefined
+  if (pending) {
+    console.log("🔁 [Queue] Joining identical in-flight request")
+  } else {
+    const controller = new AbortController()
+    const promise = new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest<unknown> = {
+        run: () => run(controller.signal),
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        attempt: 0,
+        signal: controller.signal
+      }
+
+      controller.signal.addEventListener("abort", () => {
+        const index = queue.indexOf(request)
+        if (index !== -1) {
+          queue.splice(index, 1)
+          reject(createAbortError())
+        }
+      })
+
+      queue.push(request)
+      pump()
+    }).finally(() => {
+      pendingByKey.delete(key)
+    })
+
+    pending = { promise, controller, callers: 0 }
+    pendingByKey.set(key, pending)
+  }
+
+  pending.callers++
+  if (!signal) {
+    return pending.promise
+  }
+
+  const shared = pending
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(createAbortError())
+      shared.callers--
+      if (shared.callers === 0) {
+        console.log("🚫 [Queue] Dropping request nobody is waiting for")
+        shared.controller.abort()
+      }
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true })
+    shared.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+/**
+ * @returns A snapshot of the queue
+ */
+export function getQueueState(): QueueState {
+  const rateLimitedUntil = pausedUntil > Date.now() ? pausedUntil : null
+  const busy = queue.length + activeCount + retryingCount > 0
+
+  return {
+    status: rateLimitedUntil ? "rate-limited" : busy ? "busy" : "idle",
+    queued: queue.length,
+    active: activeCount,
+    retrying: retryingCount,
+    rateLimitedUntil
+  }
+}
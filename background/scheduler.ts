@@ -0,0 +1,78 @@
+import { Storage } from "@plasmohq/storage"
+
+import { switchProfile } from "~lib/profiles"
+import {
+  getNextScheduleChange,
+  getScheduledProfileId,
+  loadSchedule,
+  SCHEDULE_STATUS_STORAGE_KEY,
+  SCHEDULE_STORAGE_KEY,
+  type ScheduleStatus
+} from "~lib/schedule"
+
+const ALARM_NAME = "schedule-change"
+
+const storage = new Storage()
+const statusStorage = new Storage({ area: "local" })
+const profileStorage = new Storage({ area: "local" })
+
+/**
+ * Switches to the profile the schedule wants now and sets an alarm for the
+ * next change. The profile is only switched when the schedule moves on to
+ * it, so a profile picked by hand stays until the next change.
+ */
+async function applySchedule(): Promise<void> {
+  const [schedule, previous] = await Promise.all([
+    loadSchedule(storage),
+    statusStorage.get<ScheduleStatus>(SCHEDULE_STATUS_STORAGE_KEY)
+  ])
+  await chrome.alarms.clear(ALARM_NAME)
+
+  if (!schedule.enabled) {
+    await statusStorage.remove(SCHEDULE_STATUS_STORAGE_KEY)
+    return
+  }
+
+  const now = new Date()
+  const profileId = getScheduledProfileId(schedule, now)
+  if (profileId && previous?.profileId !== profileId) {
+    const profile = await switchProfile(storage, profileStorage, profileId)
+    if (profile) {
+      console.log(`⏰ [Schedule] Switched to "${profile.name}"`)
+    }
+  }
+
+  const next = getNextScheduleChange(schedule, now)
+  const status: ScheduleStatus = {
+    profileId,
+    nextChangeAt: next?.at ?? null,
+    nextProfileId: next?.profileId ?? null
+  }
+  await statusStorage.set(SCHEDULE_STATUS_STORAGE_KEY, status)
+
+  if (next) {
+    await chrome.alarms.create(ALARM_NAME, { when: next.at })
+  }
+}
+
+/**
+ * Switches profiles on the user's schedule. Alarms survive service worker
+ * restarts, and every start re-checks the schedule in case an alarm was
+ * missed while the browser was closed.
+ */
+export function startScheduler(): void {
+  const run = () =>
+    applySchedule().catch((error) =>
+      console.error("❌ [Schedule] Error applying schedule:", error)
+    )
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === ALARM_NAME) {
+      run()
+    }
+  })
+
+  storage.watch({ [SCHEDULE_STORAGE_KEY]: run })
+
+  run()
+}
@@ -0,0 +1,82 @@
+import { Storage } from "@plasmohq/storage"
+
+import {
+  EMPTY_USAGE_TOTALS,
+  estimateCost,
+  getDayKey,
+  getMonthlyCost,
+  loadMonthlyBudget,
+  loadUsageLog,
+  USAGE_LOG_STORAGE_KEY,
+  USAGE_RETENTION_DAYS
+} from "~lib/usage"
+
+import type { TokenUsage } from "./providers"
+
+const storage = new Storage()
+const usageStorage = new Storage({ area: "local" })
+
+// Serializes read-modify-write cycles so concurrent requests don't lose updates
+let writeChain: Promise<void> = Promise.resolve()
+
+/**
+ * Adds a completed request to today's totals for its model.
+ * @param providerId The provider that served the request
+ * @param model The model that served the request
+ * @param usage The token counts reported by the provider
+ */
+export function recordUsage(
+  providerId: string,
+  model: string,
+  usage: TokenUsage | undefined
+): Promise<void> {
+  writeChain = writeChain.then(async () => {
+    try {
+      const log = await loadUsageLog(usageStorage)
+      const day = getDayKey()
+      const key = `${providerId}:${model}`
+      const totals = log[day]?.[key] ?? EMPTY_USAGE_TOTALS
+      const inputTokens = usage?.inputTokens ?? 0
+      const outputTokens = usage?.outputTokens ?? 0
+
+      log[day] = {
+        ...log[day],
+        [key]: {
+          requests: totals.requests + 1,
+          inputTokens: totals.inputTokens + inputTokens,
+          outputTokens: totals.outputTokens + outputTokens,
+          cost: totals.cost + estimateCost(model, inputTokens, outputTokens)
+        }
+      }
+
+      const oldestDay = getDayKey(
+        new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      )
+      for (const loggedDay of Object.keys(log)) {
+        if (loggedDay < oldestDay) {
+          delete log[loggedDay]
+        }
+      }
+
+      await usageStorage.set(USAGE_LOG_STORAGE_KEY, log)
+    } catch (error) {
+      console.error("❌ [Usage] Error recording usage:", error)
+    }
+  })
+
+  return writeChain
+}
+
+/**
+ * Checks whether this month's estimated spend has reached the user's budget.
+ * @returns The budget in USD if it has been reached, otherwise null
+ */
+export async function getExceededBudget(): Promise<number | null> {
+  const budget = await loadMonthlyBudget(storage)
+  if (budget === 0) {
+    return null
+  }
+
+  const spent = getMonthlyCost(await loadUsageLog(usageStorage))
+  return spent >= budget ? budget : null
+}
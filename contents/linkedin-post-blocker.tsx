@@ -2,9 +2,10 @@ import type { PlasmoCSConfig } from "plasmo"
 import React from "react"
 import { createRoot } from "react-dom/client"
 
-import { sendToBackground } from "@plasmohq/messaging"
 import { Storage } from "@plasmohq/storage"
 
+import { sendMessage } from "~lib/messages"
+
 export const config: PlasmoCSConfig = {
   matches: ["https://www.linkedin.com/feed*"],
   all_frames: false
@@ -100,16 +101,18 @@ async function processPost(container: Element) {
   try {
     console.log("Sending message")
     // Get post categorization
-    const response = await sendToBackground({
-      name: "categorize-post",
-      body: {
-        text: data.text,
-        userCategories: [
-          ...(userCategories?.include || []),
-          ...(userCategories?.exclude || [])
-        ].map((cat) => cat.toUpperCase())
+    const response = await sendMessage("categorize-post", {
+      postId: postHash,
+      text: data.text,
+      authorName: data.actorName,
+      userCategories: {
+        include: userCategories?.include || [],
+        exclude: userCategories?.exclude || []
       }
     })
+    if ("cancelled" in response) {
+      return
+    }
 
     data.categories = response.categories.map((cat) => cat.toUpperCase())
     data.tldr = response.tldr
@@ -3,6 +3,8 @@
  * It re-exports functionality from the new modular message system
  */
 
+import type { ContentAction } from '~lib/messages';
+
 import type { MessageHandler } from './messaging/types';
 import {
 	registerMessageHandler as register,
@@ -14,7 +16,7 @@ import {
  * @param action The action to handle
  * @param handler The handler function
  */
-export function registerMessageHandler(action: string, handler: MessageHandler) {
+export function registerMessageHandler<A extends ContentAction>(action: A, handler: MessageHandler<A>) {
 	register(action, handler);
 }
 
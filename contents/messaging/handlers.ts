@@ -2,6 +2,8 @@
  * Default message handlers
  */
 
+import type { ContentActionMap } from '~lib/messages';
+
 import type { FeedlyDebugObject } from './types';
 import { registerMessageHandler } from './registry';
 
@@ -23,7 +25,7 @@ export function registerDefaultHandlers(): void {
  * 
  * @param data The message data
  */
-function handleCategoryUpdate(data: any): void {
+function handleCategoryUpdate(data: ContentActionMap["category-update"]): void {
 	console.log("🔄 [Handlers] Category update received:", data);
 
 	// Set a flag to indicate that categories have been updated
@@ -47,18 +49,22 @@ function handleCategoryUpdate(data: any): void {
  * 
  * @param data The message data
  */
-function handleCategorizationResult(data: any): void {
+function handleCategorizationResult(data: ContentActionMap["categorization-result"]): void {
 	console.log("📊 [Handlers] Categorization result received:", data);
 
 	// Store the result in the global cache
 	if (data.postHash) {
 		const debugObj = window.__feedlyDebug as unknown as FeedlyDebugObject;
 
-		if (debugObj && debugObj.categorizeCache) {
-			debugObj.categorizeCache.set(data.postHash, {
-				categories: data.categories || ["ERROR"],
-				tldr: data.tldr || "No summary available",
-				confidence: data.confidence || 0,
+		if (debugObj) {
+			// The listener starts before the debug object exists
+			debugObj.categorizeCache ??= new Map();
+			const { postHash, ...result } = data;
+			debugObj.categorizeCache.set(postHash, {
+				...result,
+				categories: result.categories || ["ERROR"],
+				tldr: result.tldr || "No summary available",
+				confidence: result.confidence || 0,
 				processedAt: Date.now()
 			});
 
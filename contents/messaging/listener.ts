@@ -2,6 +2,8 @@
  * Message listener for content script to receive messages from the background script
  */
 
+import { checkContentAction } from '~lib/messages';
+
 import type { BackgroundMessage, ContentResponse, FeedlyDebugObject } from './types';
 import { getMessageHandler, hasMessageHandler } from './registry';
 import { registerDefaultHandlers } from './handlers';
@@ -28,7 +30,15 @@ export function initializeMessageListener(): void {
 
 			// Check if this is a message from the background script
 			if (message.type === "from-background") {
-				const { action, data } = message;
+				const { action, data, protocolVersion } = message;
+
+				// Reject actions that do not match the message contract
+				const problem = checkContentAction(action, data, protocolVersion);
+				if (problem) {
+					console.warn(`⚠️ [Listener] Rejected action ${action}: ${problem}`);
+					sendResponse({ success: false, error: problem });
+					return false;
+				}
 
 				// Check if we have a handler for this action
 				if (action && hasMessageHandler(action)) {
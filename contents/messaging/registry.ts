@@ -2,10 +2,12 @@
  * Registry for message handlers
  */
 
+import type { ContentAction } from '~lib/messages';
+
 import type { MessageHandler } from './types';
 
 // Store handlers for different message actions
-const messageHandlers: Record<string, MessageHandler> = {};
+const messageHandlers: Partial<Record<ContentAction, MessageHandler<any>>> = {};
 
 /**
  * Register a handler for a specific message action
@@ -14,7 +16,7 @@ const messageHandlers: Record<string, MessageHandler> = {};
  * @param handler The handler function
  * @returns True if the handler was registered successfully
  */
-export function registerMessageHandler(action: string, handler: MessageHandler): boolean {
+export function registerMessageHandler<A extends ContentAction>(action: A, handler: MessageHandler<A>): boolean {
 	if (!action || typeof handler !== 'function') {
 		console.error('❌ [Registry] Invalid action or handler');
 		return false;
@@ -31,7 +33,7 @@ export function registerMessageHandler(action: string, handler: MessageHandler):
  * @param action The action to get a handler for
  * @returns The handler function or undefined if no handler is registered
  */
-export function getMessageHandler(action: string): MessageHandler | undefined {
+export function getMessageHandler<A extends ContentAction>(action: A): MessageHandler<A> | undefined {
 	return messageHandlers[action];
 }
 
@@ -42,7 +44,7 @@ export function getMessageHandler(action: string): MessageHandler | undefined {
  * @returns True if a handler exists
  */
 export function hasMessageHandler(action: string): boolean {
-	return !!messageHandlers[action];
+	return !!messageHandlers[action as ContentAction];
 }
 
 /**
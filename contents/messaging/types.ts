@@ -2,19 +2,16 @@
  * Type definitions for the messaging system
  */
 
-/**
- * Defines the structure of a message handler function
- */
-export type MessageHandler = (message: any) => void;
+import type { ContentAction, ContentActionMap } from '~lib/messages';
+
+export type { BackgroundMessage } from '~lib/messages';
 
 /**
- * Interface for background to content script messages
+ * Defines the structure of a message handler function
  */
-export interface BackgroundMessage {
-	type: 'from-background';
-	action: string;
-	data: any;
-}
+export type MessageHandler<A extends ContentAction = ContentAction> = (
+	data: ContentActionMap[A]
+) => void;
 
 /**
  * Interface for content script to background responses
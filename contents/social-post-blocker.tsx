@@ -2,9 +2,33 @@ import type { PlasmoCSConfig } from "plasmo"
 import React, { useCallback } from "react"
 import { createRoot } from "react-dom/client"
 
-import { sendToBackground } from "@plasmohq/messaging"
 import { Storage } from "@plasmohq/storage"
 
+import type { AiGeneratedScore } from "~background/categorizer/types"
+import {
+  getAuthorKey,
+  loadAuthorLists,
+  matchAuthorList,
+  setAuthorList
+} from "~lib/author-lists"
+import {
+  CATEGORIZATION_ERROR_DESCRIPTIONS,
+  type CategorizationError,
+  type CategorizationErrorCode
+} from "~lib/categorization-errors"
+import { loadFilterMode } from "~lib/filter-mode"
+import {
+  applyFilterRules,
+  loadFilterRules,
+  type RuleAction
+} from "~lib/filter-rules"
+import { isProviderConfigured, loadProviderSettings } from "~lib/llm-settings"
+import { sendMessage } from "~lib/messages"
+import { findMutedTerm, loadMuteList } from "~lib/mute-list"
+import type { RulePlatform } from "~lib/rule-expression"
+import { applyThresholds, loadThresholds } from "~lib/thresholds"
+import { TONE_DIMENSIONS, type ToneDimension, type ToneScores } from "~lib/tone"
+
 // Import CSS files
 import "./styles/social-post-blocker.css"
 import "./styles/feed-ly-cover.css"
@@ -13,7 +37,7 @@ import "./styles/status-indicators.css"
 import "./styles/animations.css"
 
 // Import our message listener
-import { initializeMessageListener } from "./messaging"
+import { initializeMessageListener, registerMessageHandler } from "./messaging"
 
 // Add TypeScript interface extensions for the window object
 declare global {
@@ -53,11 +77,55 @@ const processedPosts = new Map<
     tldr: string
     shouldBlock: boolean
     matchedCategories?: string[]
+    // Exclude categories scored below the block threshold
+    filteredCategories?: string[]
+    // Why each category was assigned
+    rationales?: Record<string, string>
+    tone?: ToneScores
+    // Tone dimensions at or above the user's limit
+    matchedTones?: ToneDimension[]
+    aiGenerated?: AiGeneratedScore
+    // Whether the likely AI-generated score reached the user's limit
+    matchedAiGenerated?: boolean
+    // Whether the post matched none of the user's include categories
+    missedInclude?: boolean
+    // The strongest action of the filter rules the post matched
+    ruleAction?: RuleAction | null
+    // Expressions of the rules behind the action
+    matchedRules?: string[]
+    // Why the AI provider was skipped for this post
+    error?: CategorizationError
+    // What was sent for categorization, kept for feedback
+    text?: string
+    authorName?: string
     processedAt: number // Add timestamp to track when the post was processed
   }
 >()
 // Track the last time categories were updated
 let lastCategoriesUpdate = Date.now()
+// Number of categorize-post requests waiting on the background queue
+let pendingCategorizations = 0
+let queueWatchTimer: number | null = null
+// How long a post may stay out of view before its request is cancelled
+const CANCEL_OUT_OF_VIEW_MS = 1500
+// Pending categorize-post requests by post container, with the timer that
+// cancels them while the post is out of view
+const inFlightRequests = new Map<
+  Element,
+  { requestId: string; cancelTimer: number | null }
+>()
+// Posts the AI provider failed on, retried once the cause may be fixed
+const failedPosts = new Map<
+  Element,
+  { postHash: string; code: CategorizationErrorCode }
+>()
+// Errors that usually clear up by themselves
+const TRANSIENT_ERROR_CODES: CategorizationErrorCode[] = [
+  "RATE_LIMITED",
+  "NETWORK"
+]
+const TRANSIENT_RETRY_DELAY_MS = 30000
+let transientRetryTimer: number | null = null
 
 const storage = new Storage()
 
@@ -90,10 +158,45 @@ const FeedlyCoverElement: React.FC<{
   categories: string[]
   tldr: string
   onUnmute: () => void
+  onFeedback: (correct: boolean) => void
   matchedCategories?: string[]
-}> = ({ postId, categories, tldr, onUnmute, matchedCategories = [] }) => {
+  rationales?: Record<string, string>
+  matchedTones?: ToneDimension[]
+  tone?: ToneScores
+  aiGenerated?: AiGeneratedScore | null
+  missedInclude?: boolean
+  matchedRules?: string[]
+  authorName?: string
+  // Whether the post was hidden for its author alone
+  blockedAuthor?: boolean
+  // The mute list term found in the post
+  mutedTerm?: string
+  onAlwaysShowAuthor?: () => void
+  onAlwaysHideAuthor?: () => void
+}> = ({
+  postId,
+  categories,
+  tldr,
+  onUnmute,
+  onFeedback,
+  matchedCategories = [],
+  rationales = {},
+  matchedTones = [],
+  tone = {},
+  aiGenerated = null,
+  missedInclude = false,
+  matchedRules = [],
+  authorName,
+  blockedAuthor = false,
+  mutedTerm,
+  onAlwaysShowAuthor,
+  onAlwaysHideAuthor
+}) => {
   const [isVisible, setIsVisible] = React.useState(false)
   const [isUnmuting, setIsUnmuting] = React.useState(false)
+  const [feedbackSent, setFeedbackSent] = React.useState(false)
+  const [showReasons, setShowReasons] = React.useState(false)
+  const [authorHidden, setAuthorHidden] = React.useState(blockedAuthor)
   const containerRef = React.useRef<HTMLDivElement>(null)
 
   React.useEffect(() => {
@@ -109,9 +212,86 @@ const FeedlyCoverElement: React.FC<{
     }, 600) // Increased from 400ms to 600ms to match new animation duration
   }
 
-  // Display matched categories if available, otherwise show first three categories
+  const handleAlwaysShowAuthor = () => {
+    onAlwaysShowAuthor?.()
+    handleUnmute()
+  }
+
+  const handleFeedback = (correct: boolean) => {
+    onFeedback(correct)
+    setFeedbackSent(true)
+    // A wrongly hidden post is shown right away
+    if (!correct) {
+      handleUnmute()
+    }
+  }
+
+  // Display matched categories if available, otherwise show first three
+  // categories unless the post was hidden for its tone alone
+  const hiddenForOtherReason =
+    matchedTones.length > 0 ||
+    Boolean(aiGenerated) ||
+    missedInclude ||
+    matchedRules.length > 0 ||
+    blockedAuthor ||
+    Boolean(mutedTerm)
   const displayCategories =
-    matchedCategories.length > 0 ? matchedCategories : categories.slice(0, 3)
+    matchedCategories.length > 0 || hiddenForOtherReason
+      ? matchedCategories
+      : categories.slice(0, 3)
+  // Only categories that caused the cover need explaining
+  const reasons = [
+    ...displayCategories.map((category) => ({
+      category,
+      reason: rationales[category.toUpperCase()]
+    })),
+    ...TONE_DIMENSIONS.filter(({ id }) => matchedTones.includes(id)).map(
+      ({ id, label }) => ({
+        category: id,
+        reason: `${label} scored ${Math.round((tone[id] ?? 0) * 100)}%`
+      })
+    ),
+    ...(aiGenerated
+      ? [
+          {
+            category: "AI-GENERATED",
+            reason: `Likely AI-generated (${Math.round(aiGenerated.score * 100)}%)${
+              aiGenerated.signals.length > 0
+                ? `: ${aiGenerated.signals.join(", ")}`
+                : ""
+            }`
+          }
+        ]
+      : []),
+    ...(missedInclude
+      ? [
+          {
+            category: "NOT INCLUDED",
+            reason: `Matches none of your include categories (categorized as ${categories.join(", ")})`
+          }
+        ]
+      : []),
+    ...(blockedAuthor
+      ? [
+          {
+            category: "BLOCKED AUTHOR",
+            reason: `${getAuthorKey(authorName)} is on your always-hide list`
+          }
+        ]
+      : []),
+    ...(mutedTerm
+      ? [
+          {
+            category: "MUTED",
+            reason: `Contains "${mutedTerm}" from your mute list`
+          }
+        ]
+      : []),
+    ...matchedRules.map((expression, index) => ({
+      category: matchedRules.length > 1 ? `RULE ${index + 1}` : "RULE",
+      reason: `Matched ${expression}`
+    }))
+  ].filter(({ reason }) => reason)
 
   return (
     <div
@@ -127,11 +307,43 @@ const FeedlyCoverElement: React.FC<{
                 {category.toUpperCase()}
               </span>
             ))}
-            {categories.length > 3 && matchedCategories.length === 0 && (
-              <span className="feed-ly-more-tag">
-                +{categories.length - 3} more
+            {matchedTones.map((dimension) => (
+              <span
+                key={dimension}
+                className="feed-ly-compact-tag feed-ly-tone-tag">
+                {dimension.replace("_", " ")}
+              </span>
+            ))}
+            {aiGenerated && (
+              <span className="feed-ly-compact-tag feed-ly-ai-tag">
+                AI-GENERATED
+              </span>
+            )}
+            {missedInclude && (
+              <span className="feed-ly-compact-tag feed-ly-include-tag">
+                NOT INCLUDED
+              </span>
+            )}
+            {matchedRules.length > 0 && (
+              <span className="feed-ly-compact-tag feed-ly-rule-tag">RULE</span>
+            )}
+            {blockedAuthor && (
+              <span className="feed-ly-compact-tag feed-ly-author-tag">
+                BLOCKED AUTHOR
+              </span>
+            )}
+            {mutedTerm && (
+              <span className="feed-ly-compact-tag feed-ly-mute-tag">
+                MUTED: {mutedTerm}
               </span>
             )}
+            {categories.length > 3 &&
+              matchedCategories.length === 0 &&
+              !hiddenForOtherReason && (
+                <span className="feed-ly-more-tag">
+                  +{categories.length - 3} more
+                </span>
+              )}
           </div>
         </div>
         <button onClick={handleUnmute} className="feed-ly-compact-button">
@@ -139,17 +351,86 @@ const FeedlyCoverElement: React.FC<{
           <span className="feed-ly-button-icon">→</span>
         </button>
       </div>
+      {showReasons && reasons.length > 0 && (
+        <ul className="feed-ly-reasons">
+          {reasons.map(({ category, reason }) => (
+            <li key={category}>
+              <strong>{category.toUpperCase()}:</strong> {reason}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="feed-ly-feedback">
+        {reasons.length > 0 && (
+          <button onClick={() => setShowReasons(!showReasons)}>
+            {showReasons ? "Hide reason" : "Why was this hidden?"}
+          </button>
+        )}
+        {authorName && onAlwaysShowAuthor && (
+          <button onClick={handleAlwaysShowAuthor}>
+            Always show this author
+          </button>
+        )}
+        {authorName && onAlwaysHideAuthor && !authorHidden && (
+          <button
+            onClick={() => {
+              onAlwaysHideAuthor()
+              setAuthorHidden(true)
+            }}>
+            Always hide this author
+          </button>
+        )}
+        {/* Feedback teaches categories, so covers for tone, AI-generated
+            text, a missed include or a rule have nothing to judge */}
+        {blockedAuthor ||
+        mutedTerm ||
+        matchedCategories.length === 0 ? null : feedbackSent ? (
+          <span>Thanks, Feed.ly will learn from this</span>
+        ) : (
+          <>
+            <button onClick={() => handleFeedback(true)}>Correct</button>
+            <button onClick={() => handleFeedback(false)}>
+              Wrong category
+            </button>
+          </>
+        )}
+      </div>
     </div>
   )
 }
 
+/**
+ * Why a post is covered, shown on the cover.
+ */
+interface CoverReasons {
+  // The categories that matched filtering criteria
+  matchedCategories?: string[]
+  // Why each category was assigned
+  rationales?: Record<string, string>
+  // The tone dimensions at or above the user's limit, and the tone scores
+  matchedTones?: ToneDimension[]
+  tone?: ToneScores
+  // The likely AI-generated score, when it reached its limit
+  aiGenerated?: AiGeneratedScore | null
+  // Whether the post matched no include category
+  missedInclude?: boolean
+  // Expressions of the block rules the post matched
+  matchedRules?: string[]
+  // The extracted author, offered for the author lists
+  authorName?: string
+  // Whether the author is on the block list
+  blockedAuthor?: boolean
+  // The mute list term found in the post
+  mutedTerm?: string
+}
+
 /**
  * Applies a cover overlay to a post that should be blocked.
  * @param container The post container element
  * @param postHash The unique hash identifying the post
  * @param categories The categories assigned to the post
  * @param tldr The summary of the post
- * @param matchedCategories The categories that matched filtering criteria
+ * @param reasons Why the post is covered
  * @returns Promise<void>
  */
 async function applyPostCover(
@@ -157,8 +438,10 @@ async function applyPostCover(
   postHash: string,
   categories: string[],
   tldr: string,
-  matchedCategories: string[] = []
+  reasons: CoverReasons = {}
 ): Promise<void> {
+  const { matchedCategories = [], authorName } = reasons
+
   try {
     // Check if post is already unmuted
     const unmutedPosts = (await storage.get<string[]>("unmutedPosts")) || []
@@ -456,7 +739,25 @@ async function applyPostCover(
           categories={categories}
           tldr={tldr}
           onUnmute={unmute}
+          onFeedback={(correct) =>
+            correct
+              ? sendFeedback(postHash, matchedCategories, [])
+              : sendFeedback(postHash, [], matchedCategories)
+          }
+          {...reasons}
           matchedCategories={matchedCategories}
+          onAlwaysShowAuthor={() =>
+            setAuthorList(storage, getPlatformId(), authorName, "allow").catch(
+              (error) =>
+                console.error("❌ [Authors] Error updating allow list:", error)
+            )
+          }
+          onAlwaysHideAuthor={() =>
+            setAuthorList(storage, getPlatformId(), authorName, "block").catch(
+              (error) =>
+                console.error("❌ [Authors] Error updating block list:", error)
+            )
+          }
         />
       )
     } catch (error) {
@@ -467,6 +768,306 @@ async function applyPostCover(
   }
 }
 
+/**
+ * Stores the user's judgment of a post's categories in the background,
+ * where it corrects this post and teaches the categorizer about similar ones.
+ * @param postHash The unique hash identifying the post
+ * @param confirmed Categories the user says apply
+ * @param rejected Categories the user says do not apply
+ * @returns Promise<void>
+ */
+async function sendFeedback(
+  postHash: string,
+  confirmed: string[],
+  rejected: string[]
+): Promise<void> {
+  const result = processedPosts.get(postHash)
+  if (!result?.text) {
+    console.warn(
+      `⚠️ [Post ${postHash.substring(0, 8)}] No categorization to give feedback on`
+    )
+    return
+  }
+
+  // Reflect the correction locally until the post is processed again
+  const without = (categories: string[] = []) =>
+    categories.filter((category) => !rejected.includes(category))
+  const rationales = { ...(result.rationales ?? {}) }
+  rejected.forEach((category) => delete rationales[category])
+  confirmed.forEach(
+    (category) => (rationales[category] = `You marked this post as ${category}`)
+  )
+  processedPosts.set(postHash, {
+    ...result,
+    rationales,
+    categories: [...new Set([...without(result.categories), ...confirmed])],
+    matchedCategories: without(result.matchedCategories),
+    filteredCategories: without(result.filteredCategories),
+    shouldBlock:
+      without(result.matchedCategories).length > 0 ||
+      (result.matchedTones ?? []).length > 0 ||
+      Boolean(result.matchedAiGenerated) ||
+      Boolean(result.missedInclude) ||
+      result.ruleAction === "block"
+  })
+
+  try {
+    await sendMessage("submit-feedback", {
+      postId: postHash,
+      text: result.text,
+      authorName: result.authorName,
+      predicted: result.categories,
+      confirmed,
+      rejected
+    })
+    console.log(
+      `📝 [Post ${postHash.substring(0, 8)}] Feedback sent - confirmed: ${confirmed.join(", ") || "none"}, rejected: ${rejected.join(", ") || "none"}`
+    )
+  } catch (error) {
+    console.error("❌ Error sending feedback:", error)
+  }
+}
+
+/**
+ * Lets the user click a post's status indicator to confirm or correct the
+ * categories of a post that was not hidden, or to always show or hide its
+ * author.
+ * @param container The post container element
+ * @param postHash The unique hash identifying the post
+ * @param authorName The extracted author, for posts without a categorization
+ * @returns void
+ */
+function enableIndicatorFeedback(
+  container: Element,
+  postHash: string,
+  authorName?: string
+): void {
+  const indicator = container.querySelector<HTMLElement>(
+    ".feed-ly-status-indicator"
+  )
+  if (!indicator) {
+    return
+  }
+
+  indicator.classList.add("feed-ly-status-interactive")
+  indicator.onclick = async (event) => {
+    event.preventDefault()
+    event.stopPropagation()
+
+    const existingMenu = container.querySelector(".feed-ly-feedback-menu")
+    if (existingMenu) {
+      existingMenu.remove()
+      return
+    }
+
+    const result = processedPosts.get(postHash)
+    const author = result?.authorName ?? authorName
+    if (!result && !author) {
+      return
+    }
+
+    const [userCategories, filterMode] = await Promise.all([
+      storage.get<{ exclude: string[] }>("user-categories"),
+      loadFilterMode(storage)
+    ])
+    const menu = document.createElement("div")
+    menu.className = "feed-ly-feedback-menu"
+
+    const addButton = (label: string, onClick: () => void) => {
+      const button = document.createElement("button")
+      button.textContent = label
+      button.onclick = (clickEvent) => {
+        clickEvent.preventDefault()
+        clickEvent.stopPropagation()
+        menu.remove()
+        onClick()
+      }
+      menu.appendChild(button)
+    }
+
+    if (result) {
+      addButton("✓ Correct", () =>
+        sendFeedback(postHash, result.categories, [])
+      )
+
+      // Filtered categories the user says are wrong
+      for (const category of result.filteredCategories ?? []) {
+        addButton(`Not ${category}`, () => {
+          sendFeedback(postHash, [], [category])
+          addStatusIndicator(container, "processed")
+        })
+      }
+
+      // Exclude categories the post should have been hidden for, unless the
+      // filter mode ignores them
+      const hidden = new Set(result.filteredCategories ?? [])
+      const excludeCategories =
+        filterMode === "include" ? [] : userCategories?.exclude ?? []
+      for (const exclude of excludeCategories) {
+        const category = exclude.toUpperCase()
+        if (hidden.has(category)) continue
+
+        addButton(`Hide as ${category}`, async () => {
+          await sendFeedback(postHash, [category], [])
+          const platform =
+            window.location.hostname.includes("twitter.com") ||
+            window.location.hostname.includes("x.com")
+              ? "TWITTER"
+              : "LINKEDIN"
+          applyPostCover(
+            findBestOverlayTarget(container, platform),
+            postHash,
+            processedPosts.get(postHash)?.categories ?? [category],
+            result.tldr,
+            {
+              matchedCategories: [category],
+              rationales: processedPosts.get(postHash)?.rationales,
+              authorName: result.authorName
+            }
+          )
+        })
+      }
+    }
+
+    if (author) {
+      const platform = getPlatformId()
+      const setList = async (list: "allow" | "block") => {
+        try {
+          await setAuthorList(storage, platform, author, list)
+        } catch (error) {
+          console.error(`❌ [Authors] Error updating ${list} list:`, error)
+          return
+        }
+        // The author check runs before the cached result is used
+        removeProcessingAttribute(container)
+        ContentFilterInstance.processPost(container)
+      }
+
+      addButton("Always show this author", () => setList("allow"))
+      addButton("Always hide this author", () => setList("block"))
+    }
+
+    container.appendChild(menu)
+  }
+}
+
+/**
+ * Shows why the AI provider failed on a post and lets the user click the
+ * indicator to retry it. The post is also retried automatically once the
+ * cause may be fixed.
+ * @param container The post container element
+ * @param postHash The unique hash identifying the post
+ * @param error Why the AI provider failed
+ * @returns void
+ */
+function showPostError(
+  container: Element,
+  postHash: string,
+  error: CategorizationError
+): void {
+  console.warn(
+    `⚠️ [Post ${postHash.substring(0, 8)}] ${error.code}: ${error.message}`
+  )
+
+  const indicator = addStatusIndicator(
+    container,
+    "error",
+    `${CATEGORIZATION_ERROR_DESCRIPTIONS[error.code]} Click to retry.`
+  )
+  if (indicator) {
+    indicator.classList.remove("feed-ly-status-interactive")
+    indicator.classList.add("feed-ly-status-retry")
+    indicator.onclick = (event) => {
+      event.preventDefault()
+      event.stopPropagation()
+      retryPost(container)
+    }
+  }
+
+  failedPosts.set(container, { postHash, code: error.code })
+  if (TRANSIENT_ERROR_CODES.includes(error.code)) {
+    scheduleTransientRetry()
+  }
+}
+
+/**
+ * Forgets a failed post's result and categorizes it again.
+ * @param container The post container element
+ * @returns void
+ */
+function retryPost(container: Element): void {
+  const failed = failedPosts.get(container)
+  if (!failed) {
+    return
+  }
+
+  failedPosts.delete(container)
+  processedPosts.delete(failed.postHash)
+  const debugObj = window.__feedlyDebug as any
+  debugObj?.categorizeCache?.delete(failed.postHash)
+
+  const indicator = container.querySelector<HTMLElement>(
+    ".feed-ly-status-indicator"
+  )
+  if (indicator) {
+    indicator.classList.remove("feed-ly-status-retry")
+    indicator.onclick = null
+  }
+  removeProcessingAttribute(container)
+  ContentFilterInstance.processPost(container)
+}
+
+/**
+ * Retries the failed posts still on the page.
+ * @param codes Only retry posts that failed with one of these errors
+ * @returns How many posts were retried
+ */
+function retryFailedPosts(codes: CategorizationErrorCode[]): number {
+  let retried = 0
+  for (const [container, { code }] of [...failedPosts]) {
+    if (!container.isConnected) {
+      failedPosts.delete(container)
+    } else if (codes.includes(code)) {
+      retryPost(container)
+      retried++
+    }
+  }
+
+  if (retried > 0) {
+    console.log(
+      `🔁 [Retry] Retrying ${retried} failed posts (${codes.join(", ")})`
+    )
+  }
+  return retried
+}
+
+/**
+ * Retries rate-limited and unreachable posts after a pause.
+ * @returns void
+ */
+function scheduleTransientRetry(): void {
+  if (transientRetryTimer !== null) {
+    return
+  }
+
+  transientRetryTimer = window.setTimeout(() => {
+    transientRetryTimer = null
+    retryFailedPosts(TRANSIENT_ERROR_CODES)
+  }, TRANSIENT_RETRY_DELAY_MS)
+}
+
+/**
+ * Names the platform of the current page the way filter rules and author
+ * lists do.
+ * @returns The platform
+ */
+function getPlatformId(): RulePlatform {
+  return window.location.hostname.includes("twitter.com") ||
+    window.location.hostname.includes("x.com")
+    ? "twitter"
+    : "linkedin"
+}
+
 // Update Twitter-specific selectors and processing
 const FEED_SELECTORS = {
   LINKEDIN: {
@@ -479,6 +1080,46 @@ const FEED_SELECTORS = {
   }
 }
 
+// Post media, as opposed to avatars, emoji and link-preview icons
+const IMAGE_SELECTORS = {
+  LINKEDIN:
+    ".update-components-image img, .feed-shared-image img, .update-components-article__image img",
+  TWITTER:
+    '[data-testid="tweetPhoto"] img, [data-testid="card.layoutLarge.media"] img'
+}
+// Images collected per post; the background sends even fewer
+const MAX_POST_IMAGES = 4
+
+/**
+ * Collects the URLs and alt text of the pictures in a post. The bytes are
+ * fetched by the background, and only for categories that opted in.
+ * @param container The post container element
+ * @param platform The platform the post is on
+ * @returns The images, without duplicates
+ */
+function extractPostImages(
+  container: Element,
+  platform: "TWITTER" | "LINKEDIN"
+): { url: string; alt?: string }[] {
+  const images = new Map<string, { url: string; alt?: string }>()
+
+  container
+    .querySelectorAll<HTMLImageElement>(IMAGE_SELECTORS[platform])
+    .forEach((img) => {
+      const url = img.currentSrc || img.src
+      if (!url?.startsWith("https://") || images.has(url)) return
+
+      // X and LinkedIn both use generic alt text for undescribed images
+      const alt = img.alt?.trim()
+      images.set(url, {
+        url,
+        alt: alt && alt !== "Image" ? alt : undefined
+      })
+    })
+
+  return Array.from(images.values()).slice(0, MAX_POST_IMAGES)
+}
+
 // Helper function to analyze post container and find best element to apply overlay
 function findBestOverlayTarget(container: Element, platform: string): Element {
   // Default to the container itself
@@ -599,7 +1240,8 @@ const ContentFilterContext = React.createContext<{
  */
 function addStatusIndicator(
   container: Element,
-  status: "processing" | "processed" | "filtered" | "blocked"
+  status: "processing" | "processed" | "filtered" | "blocked" | "error",
+  detail?: string
 ): HTMLElement | null {
   try {
     // Check if multiple indicators exist and remove extras
@@ -620,7 +1262,10 @@ function addStatusIndicator(
 
     if (existingIndicator) {
       // If indicator already exists with the same status, do nothing
-      if (existingIndicator.classList.contains(`feed-ly-status-${status}`)) {
+      if (
+        existingIndicator.classList.contains(`feed-ly-status-${status}`) &&
+        (!detail || (existingIndicator as HTMLElement).title === detail)
+      ) {
         return existingIndicator as HTMLElement
       }
 
@@ -630,7 +1275,8 @@ function addStatusIndicator(
         "feed-ly-status-processing",
         "feed-ly-status-processed",
         "feed-ly-status-filtered",
-        "feed-ly-status-blocked"
+        "feed-ly-status-blocked",
+        "feed-ly-status-error"
       )
 
       // Force a DOM reflow to ensure the transition is visible
@@ -653,6 +1299,9 @@ function addStatusIndicator(
         case "blocked":
           icon = "✕" // X mark
           break
+        case "error":
+          icon = "!"
+          break
       }
 
       existingIndicator.textContent = icon
@@ -672,9 +1321,12 @@ function addStatusIndicator(
         case "blocked":
           title = "Post blocked"
           break
+        case "error":
+          title = "Could not categorize post"
+          break
       }
       // Cast to HTMLElement to access title attribute
-      ;(existingIndicator as HTMLElement).title = title
+      ;(existingIndicator as HTMLElement).title = detail || title
 
       return existingIndicator as HTMLElement
     } else {
@@ -697,8 +1349,11 @@ function addStatusIndicator(
         case "blocked":
           title = "Post blocked"
           break
+        case "error":
+          title = "Could not categorize post"
+          break
       }
-      indicator.title = title
+      indicator.title = detail || title
 
       // Append to container
       container.appendChild(indicator)
@@ -785,6 +1440,36 @@ function removePostCover(container: Element): void {
   }
 }
 
+/**
+ * Blurs or highlights a post for the filter rule it matched, or clears a
+ * previous rule's style. A blurred post is revealed by clicking it.
+ * @param container The post container element
+ * @param action The rule action, or null when no blur or highlight applies
+ * @returns void
+ */
+function applyRuleStyle(container: Element, action: RuleAction | null): void {
+  container.classList.toggle("feed-ly-rule-highlight", action === "highlight")
+
+  if (action !== "blur") {
+    container.classList.remove("feed-ly-rule-blur")
+    return
+  }
+  if (container.classList.contains("feed-ly-rule-blur")) {
+    return
+  }
+
+  container.classList.add("feed-ly-rule-blur")
+  const reveal = (event: Event) => {
+    if (!container.classList.contains("feed-ly-rule-blur")) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    container.classList.remove("feed-ly-rule-blur")
+  }
+  container.addEventListener("click", reveal, { capture: true, once: true })
+}
+
 // Update the processPost function to add status indicators
 export function ContentFilterProvider({ children }) {
   const storage = new Storage()
@@ -881,6 +1566,9 @@ export function ContentFilterProvider({ children }) {
       }
     }
 
+    // Image-only posts are categorized from their pictures
+    const postImages = extractPostImages(container, platform)
+
     // Get user categories - handle both array format (from storage) and Set format (if extracted from memory)
     const userCategoriesRaw = (await storage.get<{
       include: string[] | Set<string> | unknown
@@ -901,10 +1589,28 @@ export function ContentFilterProvider({ children }) {
           : []
     }
 
+    // Tone and AI-generated limits filter posts even without categories
+    // for the filter mode to use
+    const [thresholds, filterMode, filterRules, authorLists, muteList] =
+      await Promise.all([
+        loadThresholds(storage),
+        loadFilterMode(storage),
+        loadFilterRules(storage),
+        loadAuthorLists(storage),
+        loadMuteList(storage)
+      ])
+    const platformId = getPlatformId()
+    const filtersByCategory =
+      (filterMode !== "include" && userCategories.exclude.length > 0) ||
+      (filterMode !== "exclude" && userCategories.include.length > 0)
     if (
-      !userCategories ||
-      !userCategories.exclude ||
-      userCategories.exclude.length === 0
+      !filtersByCategory &&
+      !filterRules.some((rule) => rule.enabled) &&
+      authorLists[platformId].allow.length === 0 &&
+      authorLists[platformId].block.length === 0 &&
+      muteList.length === 0 &&
+      Object.keys(thresholds.tone).length === 0 &&
+      thresholds.aiGenerated === null
     ) {
       return
     }
@@ -983,6 +1689,47 @@ export function ContentFilterProvider({ children }) {
       return
     }
 
+    // Listed authors are decided without a categorization request
+    const authorList = matchAuthorList(authorLists, platformId, data.actorName)
+    if (authorList) {
+      const targetElement = findBestOverlayTarget(container, platform)
+      applyRuleStyle(targetElement, null)
+
+      if (authorList === "allow") {
+        removePostCover(targetElement)
+        addStatusIndicator(
+          container,
+          "processed",
+          "Always shown: this author is on your allow list"
+        )
+        enableIndicatorFeedback(container, postHash, data.actorName)
+      } else {
+        addStatusIndicator(container, "blocked")
+        applyPostCover(targetElement, postHash, [], "", {
+          authorName: data.actorName,
+          blockedAuthor: true
+        })
+      }
+
+      removeProcessingAttribute(container)
+      return
+    }
+
+    // Muted terms hide the post without a categorization request
+    const muted = findMutedTerm(muteList, postText)
+    if (muted) {
+      const targetElement = findBestOverlayTarget(container, platform)
+      applyRuleStyle(targetElement, null)
+      addStatusIndicator(container, "blocked")
+      applyPostCover(targetElement, postHash, [], "", {
+        authorName: data.actorName,
+        mutedTerm: muted.matchedText
+      })
+
+      removeProcessingAttribute(container)
+      return
+    }
+
     // Check if we've already processed this post and have cached results
     if (processedPosts.has(postHash)) {
       const cachedResult = processedPosts.get(postHash)
@@ -1020,13 +1767,28 @@ export function ContentFilterProvider({ children }) {
 
           // Find the best element to apply the overlay to
           const targetElement = findBestOverlayTarget(container, platform)
+          applyRuleStyle(targetElement, null)
 
           applyPostCover(
             targetElement,
             postHash,
             cachedResult.categories,
             cachedResult.tldr,
-            cachedResult.matchedCategories || []
+            {
+              matchedCategories: cachedResult.matchedCategories,
+              rationales: cachedResult.rationales,
+              matchedTones: cachedResult.matchedTones,
+              tone: cachedResult.tone,
+              aiGenerated: cachedResult.matchedAiGenerated
+                ? cachedResult.aiGenerated
+                : null,
+              missedInclude: cachedResult.missedInclude,
+              matchedRules:
+                cachedResult.ruleAction === "block"
+                  ? cachedResult.matchedRules
+                  : [],
+              authorName: cachedResult.authorName
+            }
           )
 
           // Remove the processing attribute
@@ -1035,15 +1797,11 @@ export function ContentFilterProvider({ children }) {
           // Post shouldn't be blocked, remove any existing cover
           const targetElement = findBestOverlayTarget(container, platform)
           removePostCover(targetElement)
+          applyRuleStyle(targetElement, cachedResult.ruleAction ?? null)
 
           // Check if the post matches any filtered categories but not enough to block
-          const hasFilteredContent = cachedResult.categories.some(
-            (cat: string) =>
-              userCategories?.exclude?.includes(cat) ||
-              userCategories?.exclude?.some((exclude: string) =>
-                cat.toUpperCase().includes(exclude.toUpperCase())
-              )
-          )
+          const hasFilteredContent =
+            (cachedResult.filteredCategories?.length ?? 0) > 0
 
           // Update to filtered or processed based on content
           const processingElapsed = Date.now() - processingStartTime
@@ -1055,8 +1813,12 @@ export function ContentFilterProvider({ children }) {
 
           if (hasFilteredContent) {
             addStatusIndicator(container, "filtered")
+            enableIndicatorFeedback(container, postHash)
+          } else if (cachedResult.error) {
+            showPostError(container, postHash, cachedResult.error)
           } else {
             addStatusIndicator(container, "processed")
+            enableIndicatorFeedback(container, postHash)
           }
 
           // Remove the processing attribute
@@ -1083,6 +1845,7 @@ export function ContentFilterProvider({ children }) {
 
       // Get post categorization
       let response
+      const requestId = `${postHash}-${Date.now()}`
       try {
         // Check if we have a cached result from the background script
         const debugObj = window.__feedlyDebug as any
@@ -1097,17 +1860,35 @@ export function ContentFilterProvider({ children }) {
           response = debugObj.categorizeCache.get(postHash)
         } else {
           // Send request to background script
-          response = await sendToBackground({
-            name: "categorize-post",
-            body: {
+          pendingCategorizations++
+          watchQueueState()
+          trackInFlightRequest(container, requestId)
+          try {
+            response = await sendMessage("categorize-post", {
+              postId: postHash,
+              requestId,
               text: postText,
               authorName: data.actorName,
+              images: postImages,
               userCategories: {
                 include: userCategories?.include || [],
                 exclude: userCategories?.exclude || []
               }
-            }
-          })
+            })
+          } finally {
+            pendingCategorizations--
+            untrackInFlightRequest(container)
+          }
+        }
+
+        // The post left the viewport; it is processed again when it returns
+        if (response?.cancelled) {
+          console.debug(
+            `🚫 [Post ${postHash.substring(0, 8)}] Categorization cancelled`
+          )
+          removeStatusIndicator(container)
+          removeProcessingAttribute(container)
+          return
         }
 
         // Add error handling to check if response and response.categories exist
@@ -1134,80 +1915,57 @@ export function ContentFilterProvider({ children }) {
         return
       }
 
+      // The background validates labels against the active category set,
+      // so exact matching is enough here
       const categories = response.categories.map((cat) => cat.toUpperCase())
       const tldr = response.tldr || "No summary available"
 
-      // Check if post should be blocked based on exclude categories
-      const matchingExcludeCategories = []
-
-      // Enhanced category matching with pattern recognition
-      // This helps ensure categories like "POLITICS" are detected even if returned as "POLITICAL" or similar
-      const enhancedCategories = [...categories]
-
-      // Map of common category variations to standardized forms
-      const categoryVariations = {
-        POLITIC: "POLITICS",
-        POLITICAL: "POLITICS",
-        POLICY: "POLITICS",
-        POLITICIAN: "POLITICS",
-        GOVERNMENT: "POLITICS",
-        ELECTION: "POLITICS",
-        SPORT: "SPORTS",
-        ATHLETIC: "SPORTS",
-        TECHNOLOGY: "TECH",
-        "ARTIFICIAL INTELLIGENCE": "AI",
-        "MACHINE LEARNING": "AI",
-        ML: "AI",
-        "BUSINESS NEWS": "BUSINESS",
-        ENTREPRENEURSHIP: "BUSINESS",
-        STARTUP: "BUSINESS",
-        ADVERTISEMENT: "PROMOTIONAL",
-        SPONSORED: "PROMOTIONAL",
-        SELLING: "PROMOTIONAL",
-        PRODUCT: "PROMOTIONAL",
-        HUMOR: "MEME",
-        FUNNY: "MEME",
-        JOKE: "MEME"
-      }
-
-      // Check if there are any patterns that match additional categories
-      for (const [pattern, category] of Object.entries(categoryVariations)) {
-        // If the categories already include the standardized form, skip
-        if (enhancedCategories.includes(category)) continue
-
-        // Check if any existing category contains the pattern
-        const hasPattern = categories.some((cat) =>
-          cat.toUpperCase().includes(pattern)
-        )
-
-        // If the pattern is found, add the standardized category
-        if (hasPattern) {
-          enhancedCategories.push(category)
-        }
-      }
-
-      const shouldBlock = userCategories?.exclude?.some((excludeCategory) => {
-        // Ensure case-insensitive comparison by converting both to uppercase
-        const upperExclude = excludeCategory.toUpperCase()
-
-        // Check if any of the post categories match this exclude category
-        const isMatch = enhancedCategories.some(
-          (category) => category.toUpperCase() === upperExclude
-        )
+      // Block or filter based on each category's score and the filter mode
+      const {
+        shouldBlock: blockedByThresholds,
+        matchedCategories: matchingExcludeCategories,
+        filteredCategories,
+        matchedTones,
+        matchedAiGenerated,
+        missedInclude
+      } = applyThresholds(
+        { ...response, categories },
+        userCategories,
+        thresholds,
+        filterMode
+      )
 
-        if (isMatch) {
-          matchingExcludeCategories.push(upperExclude)
+      // Filter rules can hide, blur or highlight posts the lists allow
+      const { action: ruleAction, matchedRules } = applyFilterRules(
+        filterRules,
+        {
+          text: postText,
+          authorName: data.actorName,
+          platform: platformId,
+          result: { ...response, categories },
+          thresholds
         }
-
-        return isMatch
-      })
+      )
+      const shouldBlock = blockedByThresholds || ruleAction === "block"
 
       // Store the result in our cache
       processedPosts.set(postHash, {
-        categories: enhancedCategories,
+        categories,
         tldr,
         shouldBlock,
         matchedCategories: matchingExcludeCategories,
+        filteredCategories,
+        rationales: response.rationales,
+        tone: response.tone,
+        matchedTones,
+        aiGenerated: response.aiGenerated,
+        matchedAiGenerated,
+        missedInclude,
+        ruleAction,
+        matchedRules,
+        error: response.error,
+        text: postText,
+        authorName: data.actorName,
         processedAt: Date.now()
       })
 
@@ -1269,7 +2027,8 @@ export function ContentFilterProvider({ children }) {
 
       // This ensures users can see the transition between states
       const updateStatusWithDelay = async (
-        status: "processed" | "filtered" | "blocked"
+        status: "processed" | "filtered" | "blocked" | "error",
+        detail?: string
       ) => {
         // Ensure minimum processing time for visual feedback
         const currentTime = Date.now()
@@ -1282,7 +2041,7 @@ export function ContentFilterProvider({ children }) {
         }
 
         // Update status indicator - don't remove it to ensure smooth transitions
-        addStatusIndicator(container, status)
+        addStatusIndicator(container, status, detail)
 
         // Remove the processing attribute after updating the status
         removeProcessingAttribute(container)
@@ -1294,36 +2053,39 @@ export function ContentFilterProvider({ children }) {
 
         // Find the best element to apply the overlay to
         const targetElement = findBestOverlayTarget(container, platform)
-
-        applyPostCover(
-          targetElement,
-          postHash,
-          enhancedCategories,
-          tldr,
-          matchingExcludeCategories
-        )
+        applyRuleStyle(targetElement, null)
+
+        applyPostCover(targetElement, postHash, categories, tldr, {
+          matchedCategories: matchingExcludeCategories,
+          rationales: response.rationales,
+          matchedTones,
+          tone: response.tone,
+          aiGenerated: matchedAiGenerated ? response.aiGenerated : null,
+          missedInclude,
+          matchedRules: ruleAction === "block" ? matchedRules : [],
+          authorName: data.actorName
+        })
 
         // Remove the processing attribute
         removeProcessingAttribute(container)
       } else {
         // If the post shouldn't be blocked, make sure to remove any existing cover
-        removePostCover(findBestOverlayTarget(container, platform))
-
-        // Check if the post matches any filtered categories but not enough to block
-        const hasFilteredContent = enhancedCategories.some(
-          (cat: string) =>
-            userCategories?.exclude?.includes(cat) ||
-            userCategories?.exclude?.some((exclude: string) =>
-              cat.toUpperCase().includes(exclude.toUpperCase())
-            )
-        )
+        const targetElement = findBestOverlayTarget(container, platform)
+        removePostCover(targetElement)
+        applyRuleStyle(targetElement, ruleAction)
 
         // Update to filtered or processed based on content
-        if (hasFilteredContent) {
+        if (filteredCategories.length > 0) {
           await updateStatusWithDelay("filtered")
+          enableIndicatorFeedback(container, postHash)
+        } else if (response.error) {
+          // Explain why the AI was skipped and offer to retry
+          await updateStatusWithDelay("error")
+          showPostError(container, postHash, response.error)
         } else {
           // Update status indicator to processed (allowed) with possible delay
           await updateStatusWithDelay("processed")
+          enableIndicatorFeedback(container, postHash)
         }
 
         // Remove the processing attribute
@@ -1341,12 +2103,12 @@ export function ContentFilterProvider({ children }) {
       // Remove the processing attribute on error
       removeProcessingAttribute(container)
 
-      // Check for API key issues
+      // Check for provider configuration issues
       try {
-        const apiKey = await storage.get("openai-api-key")
-        if (!apiKey) {
+        const providerSettings = await loadProviderSettings(storage)
+        if (!isProviderConfigured(providerSettings)) {
           console.error(
-            "❌ [API] OpenAI API key not set - please configure in extension options"
+            `❌ [API] ${providerSettings.provider} provider not configured - please configure in extension options`
           )
         }
       } catch (storageError) {
@@ -1588,8 +2350,23 @@ async function initializeExtension() {
 
   // Initialize the message listener for background script communication
   initializeMessageListener()
+  registerBroadcastHandlers()
   console.log("🎧 [Initialization] Message listener initialized")
 
+  // Let the background push settings changes to this tab
+  sendMessage("register-tab", {}).catch((error) =>
+    console.error("❌ [Initialization] Error registering tab:", error)
+  )
+
+  await startFiltering()
+}
+
+/**
+ * Starts filtering the feed when the extension is enabled on a supported
+ * site. A tab opened while disabled runs this again once enabled, without
+ * registering its listeners twice.
+ */
+async function startFiltering() {
   // Check if extension is enabled
   const enabled = await storage.get<boolean>("enabled")
 
@@ -2054,9 +2831,16 @@ function initDebugUtils() {
         console.log("📋 Categories:", categories)
       })
 
-      // Check API key
-      storage.get("openai-api-key").then((apiKey) => {
-        console.log(`🔑 API key set: ${apiKey ? "YES" : "NO"}`)
+      // Check the background request queue
+      sendMessage("get-queue-state", {}).then((state) => {
+        console.log("📬 Request queue:", state)
+      })
+
+      // Check provider configuration
+      loadProviderSettings(storage).then((providerSettings) => {
+        console.log(
+          `🔑 Provider: ${providerSettings.provider} (${providerSettings.model}), configured: ${isProviderConfigured(providerSettings) ? "YES" : "NO"}`
+        )
       })
     },
 
@@ -2080,8 +2864,7 @@ function initDebugUtils() {
           "This extension uses sophisticated AI models to classify content without relying on\n" +
           "simple keyword matching. Each post is analyzed by a large language model to determine\n" +
           "its categories based on the full context and content.\n\n" +
-          "For official government accounts like The White House, content is automatically\n" +
-          "categorized as POLITICS regardless of the specific content.\n\n" +
+          "The categorization prompt can be edited and previewed on the options page.\n\n" +
           "For more help, visit the extension options page."
       )
     },
@@ -2295,6 +3078,125 @@ function hideCategoryUpdateStatus() {
   }
 }
 
+/**
+ * Starts or stops the cancel timers of pending requests as their posts
+ * move in and out of the viewport. Posts removed from the DOM are reported
+ * as not intersecting, so recycled nodes are cancelled too.
+ */
+const viewportObserver = new IntersectionObserver((entries) => {
+  for (const entry of entries) {
+    const request = inFlightRequests.get(entry.target)
+    if (!request) continue
+
+    if (entry.isIntersecting) {
+      if (request.cancelTimer !== null) {
+        clearTimeout(request.cancelTimer)
+        request.cancelTimer = null
+      }
+    } else if (request.cancelTimer === null) {
+      request.cancelTimer = window.setTimeout(() => {
+        untrackInFlightRequest(entry.target)
+        sendMessage("cancel-categorization", {
+          requestId: request.requestId
+        }).catch((error) =>
+          console.error("❌ Error cancelling categorization:", error)
+        )
+      }, CANCEL_OUT_OF_VIEW_MS)
+    }
+  }
+})
+
+/**
+ * Watches a post while its categorize-post request is pending so the
+ * request can be cancelled if the post scrolls away.
+ * @param container The post container element
+ * @param requestId The id sent with the request
+ * @returns void
+ */
+function trackInFlightRequest(container: Element, requestId: string): void {
+  untrackInFlightRequest(container)
+  inFlightRequests.set(container, { requestId, cancelTimer: null })
+  viewportObserver.observe(container)
+}
+
+/**
+ * Stops watching a post once its request has been answered or cancelled.
+ * @param container The post container element
+ * @returns void
+ */
+function untrackInFlightRequest(container: Element): void {
+  const request = inFlightRequests.get(container)
+  if (!request) {
+    return
+  }
+
+  if (request.cancelTimer !== null) {
+    clearTimeout(request.cancelTimer)
+  }
+  inFlightRequests.delete(container)
+  viewportObserver.unobserve(container)
+}
+
+/**
+ * Polls the background request queue while this tab has posts waiting on it,
+ * and tells the user when the AI provider is rate limiting us.
+ * @returns void
+ */
+function watchQueueState(): void {
+  if (queueWatchTimer !== null) {
+    return
+  }
+
+  let wasRateLimited = false
+
+  queueWatchTimer = window.setInterval(async () => {
+    if (pendingCategorizations <= 0) {
+      clearInterval(queueWatchTimer)
+      queueWatchTimer = null
+      if (wasRateLimited) {
+        hideCategoryUpdateStatus()
+      }
+      return
+    }
+
+    try {
+      const state = await sendMessage("get-queue-state", {})
+      const waiting = state.queued + state.active + state.retrying
+
+      // Let the processing indicators explain why they are still spinning
+      document
+        .querySelectorAll(".feed-ly-status-indicator.feed-ly-status-processing")
+        .forEach((indicator) => {
+          ;(indicator as HTMLElement).title =
+            state.status === "rate-limited"
+              ? "Waiting for AI provider rate limit..."
+              : `Processing post... (${waiting} in queue)`
+        })
+
+      if (state.status === "rate-limited" && state.rateLimitedUntil) {
+        const seconds = Math.ceil((state.rateLimitedUntil - Date.now()) / 1000)
+        const message = `AI provider rate limit reached - ${waiting} request(s) waiting, resuming in ${seconds}s`
+        const existingText = document.querySelector(
+          ".feed-ly-category-status-text"
+        )
+
+        // Update the countdown in place instead of re-animating the banner
+        if (wasRateLimited && existingText) {
+          existingText.textContent = `🔄 ${message}`
+        } else {
+          showCategoryUpdateStatus(message)
+        }
+        wasRateLimited = true
+      } else if (wasRateLimited) {
+        hideCategoryUpdateStatus()
+        wasRateLimited = false
+      }
+    } catch (error) {
+      console.error("❌ [Queue] Error reading queue state:", error)
+    }
+  }, 1000)
+}
+
 // * Function to check if all posts have been processed after scrolling
 function setupCategoryUpdateScrollCheck() {
   let scrollTimeout: number | null = null
@@ -2362,9 +3264,11 @@ let categoriesDirty = false
 /**
  * Reprocesses all currently visible posts when categories are updated.
  * Removes posts from the cache and triggers immediate reprocessing.
+ * @param resetDecisions Also uncover and unstyle the posts first, so every
+ * one is decided again rather than only those still showing
  * @returns void
  */
-const reprocessVisiblePosts = (): void => {
+const reprocessVisiblePosts = (resetDecisions = false): void => {
   try {
     console.log("🔍 [Feed] Checking for visible posts to reprocess immediately")
 
@@ -2404,6 +3308,15 @@ const reprocessVisiblePosts = (): void => {
         if (processedPosts.has(postHash)) {
           processedPosts.delete(postHash)
         }
+        if (resetDecisions) {
+          post.querySelectorAll(".feed-ly-cover").forEach((cover) => {
+            removePostCover(cover.parentElement)
+          })
+          applyRuleStyle(post, null)
+          post
+            .querySelectorAll(".feed-ly-rule-blur, .feed-ly-rule-highlight")
+            .forEach((styled) => applyRuleStyle(styled, null))
+        }
         // Process the post
         ContentFilterInstance.processPost(post)
       }
@@ -2426,20 +3339,83 @@ const reprocessVisiblePosts = (): void => {
 }
 
 /**
- * Watch for changes to user categories and trigger reprocessing.
- * When categories are updated:
+ * Handles the settings changes the background broadcasts to every feed tab.
+ * When categories or thresholds are updated:
  * 1. Sets categoriesDirty flag to true
  * 2. Updates lastCategoriesUpdate timestamp
  * 3. Triggers immediate reprocessing of visible posts
  * 4. Posts will be refiltered with the new categories
+ * Posts the AI provider failed on are retried when a setting that may fix
+ * the failure changes.
  */
-storage.watch({
-  "user-categories": (newValue) => {
-    console.log("🔄 [Categories] Update received:", newValue)
+function registerBroadcastHandlers(): void {
+  registerMessageHandler("category-update", ({ timestamp }) => {
+    console.log("🔄 [Categories] Update received")
 
     categoriesDirty = true
-    lastCategoriesUpdate = Date.now() // Update the timestamp when categories change
+    lastCategoriesUpdate = timestamp
+    // Results relayed from other tabs used the old categories
+    const debugObj = window.__feedlyDebug as any
+    debugObj?.categorizeCache?.clear()
     // Trigger reprocessing of visible posts with new categories
     reprocessVisiblePosts()
-  }
-})
+  })
+
+  registerMessageHandler("profile-change", ({ timestamp, name }) => {
+    console.log(`🔄 [Profiles] Switched to "${name}"`)
+
+    categoriesDirty = true
+    lastCategoriesUpdate = timestamp
+    const debugObj = window.__feedlyDebug as any
+    debugObj?.categorizeCache?.clear()
+    // Posts the previous profile covered are reconsidered too
+    reprocessVisiblePosts(true)
+    showCategoryUpdateStatus(`Switched to the "${name}" profile`, 5000)
+  })
+
+  registerMessageHandler("enabled-change", ({ enabled }) => {
+    console.log(
+      `🔄 [Initialization] Filter ${enabled ? "enabled" : "disabled"}`
+    )
+
+    if (enabled) {
+      // A tab opened while disabled has not started observing yet
+      if (document.getElementById("feed-ly-react-root")) {
+        reprocessVisiblePosts()
+      } else {
+        startFiltering()
+      }
+      return
+    }
+
+    // Show every post again while the filter is off
+    processedPosts.clear()
+    failedPosts.clear()
+    document.querySelectorAll(".feed-ly-cover").forEach((cover) => {
+      removePostCover(cover.parentElement)
+    })
+    document
+      .querySelectorAll(".feed-ly-rule-blur, .feed-ly-rule-highlight")
+      .forEach((post) => applyRuleStyle(post, null))
+    document
+      .querySelectorAll(".feed-ly-status-indicator")
+      .forEach((indicator) => removeStatusIndicator(indicator.parentElement))
+  })
+
+  registerMessageHandler("retry-failed", ({ codes }) => {
+    console.log(`🔁 [Retry] Settings changed that may fix ${codes.join(", ")}`)
+    retryFailedPosts(codes)
+  })
+
+  // Posts that could not reach the AI provider may succeed now
+  window.addEventListener("online", () => retryFailedPosts(["NETWORK"]))
+
+  registerMessageHandler("cache-invalidated", () => {
+    console.log("🗄️ [Cache] Categorization cache cleared, reprocessing")
+
+    processedPosts.clear()
+    const debugObj = window.__feedlyDebug as any
+    debugObj?.categorizeCache?.clear()
+    reprocessVisiblePosts()
+  })
+}
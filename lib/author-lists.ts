@@ -0,0 +1,131 @@
+import type { Storage } from "@plasmohq/storage"
+
+import type { RulePlatform } from "./rule-expression"
+
+/**
+ * Authors whose posts are always shown or always hidden on a platform,
+ * decided before any categorization request.
+ */
+export interface AuthorList {
+  allow: string[]
+  block: string[]
+}
+
+export type AuthorLists = Record<RulePlatform, AuthorList>
+
+export type AuthorListName = keyof AuthorList
+
+export const AUTHOR_LISTS_STORAGE_KEY = "author-lists"
+
+export const AUTHOR_LIST_PLATFORMS: { id: RulePlatform; label: string }[] = [
+  { id: "linkedin", label: "LinkedIn" },
+  { id: "twitter", label: "X (Twitter)" }
+]
+
+export const EMPTY_AUTHOR_LISTS: AuthorLists = {
+  linkedin: { allow: [], block: [] },
+  twitter: { allow: [], block: [] }
+}
+
+// The content script appends this to verified X accounts
+const VERIFIED_SUFFIX = /\s*\[Verified Account\]$/
+
+/**
+ * Reads the author lists, dropping blank and malformed entries.
+ * @param storage The storage instance to read from
+ * @returns The lists for every platform
+ */
+export async function loadAuthorLists(storage: Storage): Promise<AuthorLists> {
+  const stored = await storage.get<AuthorLists>(AUTHOR_LISTS_STORAGE_KEY)
+  const clean = (values: unknown) =>
+    Array.isArray(values)
+      ? values.map((value) => String(value).trim()).filter(Boolean)
+      : []
+
+  return Object.fromEntries(
+    AUTHOR_LIST_PLATFORMS.map(({ id }) => [
+      id,
+      {
+        allow: clean(stored?.[id]?.allow),
+        block: clean(stored?.[id]?.block)
+      }
+    ])
+  ) as AuthorLists
+}
+
+/**
+ * Turns the author line the content script extracts into the entry stored
+ * in a list: the @username on X, where display names change and repeat,
+ * and the name elsewhere.
+ * @param authorName The extracted author, e.g. "Jane Doe (@jane) [Verified Account]"
+ * @returns The list entry, or an empty string when there is no author
+ */
+export function getAuthorKey(authorName: string | undefined): string {
+  const name = (authorName ?? "").replace(VERIFIED_SUFFIX, "").trim()
+  return name.match(/\((@\w+)\)$/)?.[1] ?? name
+}
+
+/**
+ * Checks an author against a platform's lists. Entries match the @username
+ * or the whole display name, ignoring case; the allow list wins when an
+ * author is on both.
+ * @param lists The author lists
+ * @param platform The platform the post is on
+ * @param authorName The extracted author
+ * @returns The list the author is on, or null
+ */
+export function matchAuthorList(
+  lists: AuthorLists,
+  platform: RulePlatform,
+  authorName: string | undefined
+): AuthorListName | null {
+  const name = (authorName ?? "").replace(VERIFIED_SUFFIX, "").trim()
+  if (!name) {
+    return null
+  }
+
+  const candidates = new Set(
+    [name, getAuthorKey(name), name.replace(/\s*\(@\w+\)$/, "")].map(
+      (candidate) => candidate.toLowerCase()
+    )
+  )
+  const onList = (entries: string[]) =>
+    entries.some((entry) => candidates.has(entry.toLowerCase()))
+
+  if (onList(lists[platform].allow)) {
+    return "allow"
+  }
+  return onList(lists[platform].block) ? "block" : null
+}
+
+/**
+ * Puts an author on a platform's allow or block list, taking them off the
+ * other one.
+ * @param storage The storage instance to write to
+ * @param platform The platform the post is on
+ * @param authorName The extracted author
+ * @param list The list to add the author to
+ * @returns The updated lists
+ */
+export async function setAuthorList(
+  storage: Storage,
+  platform: RulePlatform,
+  authorName: string,
+  list: AuthorListName
+): Promise<AuthorLists> {
+  const key = getAuthorKey(authorName)
+  const lists = await loadAuthorLists(storage)
+  const without = (entries: string[]) =>
+    entries.filter((entry) => entry.toLowerCase() !== key.toLowerCase())
+  const { allow, block } = lists[platform]
+
+  const updated: AuthorLists = {
+    ...lists,
+    [platform]: {
+      allow: list === "allow" ? [...without(allow), key] : without(allow),
+      block: list === "block" ? [...without(block), key] : without(block)
+    }
+  }
+  await storage.set(AUTHOR_LISTS_STORAGE_KEY, updated)
+  return updated
+}
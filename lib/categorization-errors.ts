@@ -0,0 +1,58 @@
+/**
+ * Why the AI provider could not categorize a post.
+ */
+export type CategorizationErrorCode =
+  | "NO_API_KEY"
+  | "INVALID_KEY"
+  | "RATE_LIMITED"
+  | "BUDGET_EXCEEDED"
+  | "PARSE_FAILED"
+  | "NETWORK"
+
+export interface CategorizationError {
+  code: CategorizationErrorCode
+  // Details for the console, e.g. the provider's status line
+  message: string
+}
+
+export const CATEGORIZATION_ERROR_CODES: CategorizationErrorCode[] = [
+  "NO_API_KEY",
+  "INVALID_KEY",
+  "RATE_LIMITED",
+  "BUDGET_EXCEEDED",
+  "PARSE_FAILED",
+  "NETWORK"
+]
+
+/**
+ * What the user sees on a failed post's status indicator.
+ */
+export const CATEGORIZATION_ERROR_DESCRIPTIONS: Record<
+  CategorizationErrorCode,
+  string
+> = {
+  NO_API_KEY:
+    "No AI provider is configured, so only local rules were applied. Add an API key in the options.",
+  INVALID_KEY: "The AI provider rejected the API key. Check it in the options.",
+  RATE_LIMITED: "The AI provider is rate limiting requests.",
+  BUDGET_EXCEEDED:
+    "The monthly AI budget is used up, so only local rules were applied. Raise it in the options.",
+  PARSE_FAILED: "The AI answered with something that could not be read.",
+  NETWORK: "The AI provider could not be reached."
+}
+
+/**
+ * Checks whether a value is a categorization error.
+ * @param value The value to check
+ * @returns Whether it has a known code and a message
+ */
+export function isCategorizationError(
+  value: unknown
+): value is CategorizationError {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    CATEGORIZATION_ERROR_CODES.includes((value as CategorizationError).code) &&
+    typeof (value as CategorizationError).message === "string"
+  )
+}
@@ -0,0 +1,136 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * What a category means, given to the model alongside the category name.
+ */
+export interface CategoryDefinition {
+  description: string
+  // Short phrases typical of posts in the category
+  examples: string[]
+}
+
+/**
+ * Definitions keyed by upper-case category name.
+ */
+export type CategoryDefinitions = Record<string, CategoryDefinition>
+
+export const CATEGORY_DEFINITIONS_STORAGE_KEY = "category-definitions"
+
+export const EMPTY_CATEGORY_DEFINITION: CategoryDefinition = {
+  description: "",
+  examples: []
+}
+
+export const DEFAULT_CATEGORY_DEFINITIONS: CategoryDefinitions = {
+  INFORMATIONAL: {
+    description:
+      "Shares facts, news, how-tos or analysis the reader can learn from.",
+    examples: []
+  },
+  BRAGGING: {
+    description:
+      "Centers on the author's own achievements, awards, promotions or status.",
+    examples: ["humbled to announce", "I'm proud to share"]
+  },
+  PROMOTIONAL: {
+    description:
+      "Sells or advertises a product, service, event or the author's business.",
+    examples: ["sign up now", "use code SAVE20"]
+  },
+  MEME: {
+    description: "Humor, jokes or meme formats meant mainly to entertain.",
+    examples: []
+  },
+  OTHER: {
+    description: "Fits none of the other categories.",
+    examples: []
+  }
+}
+
+/**
+ * Ensures a stored definition has a trimmed description and example list.
+ * @param definition The raw definition from storage
+ * @returns The normalized definition
+ */
+export function normalizeCategoryDefinition(
+  definition: Partial<CategoryDefinition> | undefined
+): CategoryDefinition {
+  return {
+    description:
+      typeof definition?.description === "string"
+        ? definition.description.trim()
+        : "",
+    examples: Array.isArray(definition?.examples)
+      ? definition.examples
+          .map((example) => String(example).trim())
+          .filter(Boolean)
+      : []
+  }
+}
+
+/**
+ * Reads the category definitions, falling back to the defaults for built-in
+ * categories the user has not described.
+ * @param storage The storage instance to read from
+ * @returns The definitions keyed by upper-case category
+ */
+export async function loadCategoryDefinitions(
+  storage: Storage
+): Promise<CategoryDefinitions> {
+  const stored = await storage.get<CategoryDefinitions>(
+    CATEGORY_DEFINITIONS_STORAGE_KEY
+  )
+
+  return {
+    ...DEFAULT_CATEGORY_DEFINITIONS,
+    ...Object.fromEntries(
+      Object.entries(stored && typeof stored === "object" ? stored : {}).map(
+        ([category, definition]) => [
+          category.toUpperCase(),
+          normalizeCategoryDefinition(definition)
+        ]
+      )
+    )
+  }
+}
+
+/**
+ * Renders a definition as the single line shown to the model.
+ * @param definition The definition to render
+ * @returns The description followed by quoted examples, or an empty string
+ */
+export function formatCategoryDefinition(
+  definition: CategoryDefinition | undefined
+): string {
+  if (!definition) {
+    return ""
+  }
+
+  const examples = definition.examples.map((example) => `"${example}"`)
+  return [
+    definition.description,
+    examples.length > 0 ? `Examples: ${examples.join(", ")}` : ""
+  ]
+    .filter(Boolean)
+    .join(" ")
+}
+
+/**
+ * Renders the definitions of the given categories for the prompt.
+ * @param definitions Every stored definition
+ * @param categories The categories in the prompt
+ * @returns Rendered definitions keyed by category, omitting empty ones
+ */
+export function formatCategoryDefinitions(
+  definitions: CategoryDefinitions,
+  categories: string[]
+): Record<string, string> {
+  return Object.fromEntries(
+    categories
+      .map((category) => [
+        category,
+        formatCategoryDefinition(definitions[category])
+      ])
+      .filter(([, text]) => text)
+  )
+}
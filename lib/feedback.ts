@@ -0,0 +1,76 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * A post the user confirmed or corrected, kept as a labeled example.
+ */
+export interface FeedbackExample {
+  // The content script's post hash
+  postId: string
+  text: string
+  authorName?: string
+  // Categories the categorizer assigned
+  predicted: string[]
+  // Categories the user said do apply
+  confirmed: string[]
+  // Categories the user said do not apply
+  rejected: string[]
+  createdAt: number
+}
+
+// Kept in the local area; examples hold full post text
+export const FEEDBACK_STORAGE_KEY = "categorization-feedback"
+
+// Oldest examples are dropped beyond this
+export const MAX_FEEDBACK_EXAMPLES = 200
+
+/**
+ * Reads the stored examples, newest first.
+ * @param storage A storage instance for the local area
+ * @returns The examples
+ */
+export async function loadFeedback(
+  storage: Storage
+): Promise<FeedbackExample[]> {
+  const stored = await storage.get<FeedbackExample[]>(FEEDBACK_STORAGE_KEY)
+  return Array.isArray(stored) ? stored : []
+}
+
+/**
+ * Stores an example, replacing any earlier feedback on the same post.
+ * @param storage A storage instance for the local area
+ * @param example The example to store
+ * @returns The stored examples, newest first
+ */
+export async function addFeedbackExample(
+  storage: Storage,
+  example: FeedbackExample
+): Promise<FeedbackExample[]> {
+  const examples = [
+    example,
+    ...(await loadFeedback(storage)).filter(
+      ({ postId }) => postId !== example.postId
+    )
+  ].slice(0, MAX_FEEDBACK_EXAMPLES)
+
+  await storage.set(FEEDBACK_STORAGE_KEY, examples)
+  return examples
+}
+
+/**
+ * Removes one example, or all of them.
+ * @param storage A storage instance for the local area
+ * @param postId The post to forget; every example when omitted
+ */
+export async function removeFeedback(
+  storage: Storage,
+  postId?: string
+): Promise<void> {
+  const examples =
+    postId === undefined
+      ? []
+      : (await loadFeedback(storage)).filter(
+          (example) => example.postId !== postId
+        )
+
+  await storage.set(FEEDBACK_STORAGE_KEY, examples)
+}
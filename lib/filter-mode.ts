@@ -0,0 +1,93 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * Which category lists decide what is hidden:
+ * - exclude: hide posts matching an exclude category
+ * - include: hide posts matching no include category
+ * - mixed: hide posts matching an exclude category, unless they also match
+ *   an include category
+ */
+export type FilterMode = "exclude" | "include" | "mixed"
+
+export const FILTER_MODE_STORAGE_KEY = "filter-mode"
+
+export const DEFAULT_FILTER_MODE: FilterMode = "exclude"
+
+export const FILTER_MODES: {
+  id: FilterMode
+  label: string
+  description: string
+}[] = [
+  {
+    id: "exclude",
+    label: "Exclude only",
+    description: "Hide posts matching an exclude category"
+  },
+  {
+    id: "include",
+    label: "Include only",
+    description: "Hide every post that matches no include category"
+  },
+  {
+    id: "mixed",
+    label: "Mixed",
+    description:
+      "Hide posts matching an exclude category, unless they also match an include category"
+  }
+]
+
+/**
+ * Checks whether a value is a known filter mode.
+ * @param value The value to check
+ * @returns Whether it names a filter mode
+ */
+export function isFilterMode(value: unknown): value is FilterMode {
+  return FILTER_MODES.some(({ id }) => id === value)
+}
+
+/**
+ * Reads the filter mode, falling back to exclude-only.
+ * @param storage The storage instance to read from
+ * @returns The filter mode
+ */
+export async function loadFilterMode(storage: Storage): Promise<FilterMode> {
+  const stored = await storage.get<FilterMode>(FILTER_MODE_STORAGE_KEY)
+  return isFilterMode(stored) ? stored : DEFAULT_FILTER_MODE
+}
+
+/**
+ * Drops the category list the filter mode ignores, so it is neither sent
+ * to the AI provider nor used to hide posts.
+ * @param userCategories The user's include and exclude categories
+ * @param mode The filter mode
+ * @returns The categories that take part in filtering
+ */
+export function getActiveCategories<
+  T extends { include: string[]; exclude: string[] }
+>(userCategories: T, mode: FilterMode): T {
+  return {
+    ...userCategories,
+    include: mode === "exclude" ? [] : userCategories?.include ?? [],
+    exclude: mode === "include" ? [] : userCategories?.exclude ?? []
+  }
+}
+
+/**
+ * Lists the categories a single match on is enough to decide a post's
+ * fate. In mixed mode an exclude match alone does not decide it, since an
+ * include match would override it.
+ * @param userCategories The categories that take part in filtering
+ * @param mode The filter mode
+ * @returns Upper-case category names
+ */
+export function getDecisiveCategories(
+  userCategories: { include: string[]; exclude: string[] },
+  mode: FilterMode
+): string[] {
+  const decisive =
+    mode === "exclude" ||
+    (mode === "mixed" && userCategories.include.length === 0)
+      ? userCategories.exclude
+      : userCategories.include
+  return decisive.map((category) => category.toUpperCase())
+}
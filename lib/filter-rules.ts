@@ -0,0 +1,155 @@
+import type { Storage } from "@plasmohq/storage"
+
+import {
+  evaluateRuleExpression,
+  getExpressionCategories,
+  parseRuleExpression,
+  type RuleContext,
+  type RuleExpression
+} from "./rule-expression"
+
+/**
+ * What happens to a post matching a rule.
+ */
+export type RuleAction = "block" | "blur" | "highlight"
+
+/**
+ * A rule combining categories, authors, keywords, platform and scores,
+ * e.g. `POLITICS AND NOT author:"My Senator"`. Rules add to the include
+ * and exclude lists rather than replace them.
+ */
+export interface FilterRule {
+  id: string
+  expression: string
+  action: RuleAction
+  enabled: boolean
+}
+
+export interface RuleDecision {
+  // The strongest action of the matching rules
+  action: RuleAction | null
+  // Expressions of the rules that chose the action
+  matchedRules: string[]
+}
+
+export const FILTER_RULES_STORAGE_KEY = "filter-rules"
+
+export const RULE_ACTIONS: {
+  id: RuleAction
+  label: string
+  description: string
+}[] = [
+  { id: "block", label: "Block", description: "Cover the post" },
+  { id: "blur", label: "Blur", description: "Blur the post until clicked" },
+  {
+    id: "highlight",
+    label: "Highlight",
+    description: "Outline the post so it stands out"
+  }
+]
+
+// The stronger action wins when several rules match
+const ACTION_STRENGTH: Record<RuleAction, number> = {
+  highlight: 1,
+  blur: 2,
+  block: 3
+}
+
+const isRuleAction = (value: unknown): value is RuleAction =>
+  RULE_ACTIONS.some(({ id }) => id === value)
+
+/**
+ * Reads the filter rules, dropping malformed entries.
+ * @param storage The storage instance to read from
+ * @returns The rules in the order the user listed them
+ */
+export async function loadFilterRules(storage: Storage): Promise<FilterRule[]> {
+  const stored = await storage.get<FilterRule[]>(FILTER_RULES_STORAGE_KEY)
+  if (!Array.isArray(stored)) {
+    return []
+  }
+
+  return stored
+    .filter(
+      (rule) =>
+        rule &&
+        typeof rule.id === "string" &&
+        typeof rule.expression === "string"
+    )
+    .map((rule) => ({
+      id: rule.id,
+      expression: rule.expression,
+      action: isRuleAction(rule.action) ? rule.action : "block",
+      enabled: rule.enabled !== false
+    }))
+}
+
+/**
+ * Parses the enabled rules, skipping any that no longer parse.
+ * @param rules The rules
+ * @returns Each rule with its parsed expression
+ */
+function parseEnabledRules(
+  rules: FilterRule[]
+): { rule: FilterRule; expression: RuleExpression }[] {
+  return rules.flatMap((rule) => {
+    if (!rule.enabled) {
+      return []
+    }
+    try {
+      return [{ rule, expression: parseRuleExpression(rule.expression) }]
+    } catch (error) {
+      console.warn(
+        `⚠️ [Rules] Skipping invalid rule "${rule.expression}":`,
+        error
+      )
+      return []
+    }
+  })
+}
+
+/**
+ * Lists the categories the enabled rules mention, which the AI must score
+ * even when they are in neither the include nor the exclude list.
+ * @param rules The rules
+ * @returns Upper-case category names
+ */
+export function getRuleCategories(rules: FilterRule[]): string[] {
+  return [
+    ...new Set(
+      parseEnabledRules(rules).flatMap(({ expression }) =>
+        getExpressionCategories(expression)
+      )
+    )
+  ]
+}
+
+/**
+ * Evaluates the enabled rules against a post. When several match, the
+ * strongest action applies: block, then blur, then highlight.
+ * @param rules The rules
+ * @param context The post and its categorization
+ * @returns The action to take and the rules behind it
+ */
+export function applyFilterRules(
+  rules: FilterRule[],
+  context: RuleContext
+): RuleDecision {
+  const matches = parseEnabledRules(rules)
+    .filter(({ expression }) => evaluateRuleExpression(expression, context))
+    .map(({ rule }) => rule)
+  if (matches.length === 0) {
+    return { action: null, matchedRules: [] }
+  }
+
+  const strongest = Math.max(
+    ...matches.map(({ action }) => ACTION_STRENGTH[action])
+  )
+  const chosen = matches.filter(
+    ({ action }) => ACTION_STRENGTH[action] === strongest
+  )
+  return {
+    action: chosen[0].action,
+    matchedRules: chosen.map(({ expression }) => expression)
+  }
+}
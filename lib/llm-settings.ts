@@ -0,0 +1,140 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * Identifiers for the LLM backends the categorizer can talk to.
+ */
+export type ProviderId = "openai" | "anthropic" | "openai-compatible"
+
+/**
+ * Resolved settings for the provider that is currently selected.
+ */
+export interface ProviderSettings {
+  provider: ProviderId
+  apiKey: string
+  model: string
+  baseUrl: string
+}
+
+interface ProviderOption {
+  label: string
+  defaultModel: string
+  defaultBaseUrl: string
+  requiresApiKey: boolean
+  keyPlaceholder: string
+  keyUrl?: string
+  storageKeys: {
+    apiKey: string
+    model: string
+    baseUrl: string
+  }
+}
+
+export const PROVIDER_STORAGE_KEY = "llm-provider"
+
+export const PROVIDER_OPTIONS: Record<ProviderId, ProviderOption> = {
+  openai: {
+    label: "OpenAI",
+    defaultModel: "gpt-4o-mini",
+    defaultBaseUrl: "https://api.openai.com/v1",
+    requiresApiKey: true,
+    keyPlaceholder: "sk-...",
+    keyUrl: "https://platform.openai.com/account/api-keys",
+    storageKeys: {
+      apiKey: "openai-api-key",
+      model: "openai-model",
+      baseUrl: "openai-base-url"
+    }
+  },
+  anthropic: {
+    label: "Anthropic",
+    defaultModel: "claude-3-5-haiku-latest",
+    defaultBaseUrl: "https://api.anthropic.com/v1",
+    requiresApiKey: true,
+    keyPlaceholder: "sk-ant-...",
+    keyUrl: "https://console.anthropic.com/settings/keys",
+    storageKeys: {
+      apiKey: "anthropic-api-key",
+      model: "anthropic-model",
+      baseUrl: "anthropic-base-url"
+    }
+  },
+  "openai-compatible": {
+    label: "OpenAI-compatible (Ollama, llama.cpp, LM Studio)",
+    defaultModel: "llama3.1",
+    defaultBaseUrl: "http://localhost:11434/v1",
+    requiresApiKey: false,
+    keyPlaceholder: "Optional",
+    storageKeys: {
+      apiKey: "compatible-api-key",
+      model: "compatible-model",
+      baseUrl: "compatible-base-url"
+    }
+  }
+}
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_OPTIONS) as ProviderId[]
+
+/**
+ * Reads the active provider and its key/model/base URL from storage,
+ * falling back to the provider defaults for anything that is unset.
+ * @param storage The storage instance to read from
+ * @param provider Load settings for this provider instead of the active one
+ * @returns The resolved provider settings
+ */
+export async function loadProviderSettings(
+  storage: Storage,
+  provider?: ProviderId
+): Promise<ProviderSettings> {
+  const storedProvider = await storage.get<ProviderId>(PROVIDER_STORAGE_KEY)
+  const id =
+    provider ??
+    (storedProvider && storedProvider in PROVIDER_OPTIONS
+      ? storedProvider
+      : "openai")
+  const option = PROVIDER_OPTIONS[id]
+
+  const [apiKey, model, baseUrl] = await Promise.all([
+    storage.get<string>(option.storageKeys.apiKey),
+    storage.get<string>(option.storageKeys.model),
+    storage.get<string>(option.storageKeys.baseUrl)
+  ])
+
+  return {
+    provider: id,
+    apiKey: apiKey?.trim() || "",
+    model: model?.trim() || option.defaultModel,
+    baseUrl: (baseUrl?.trim() || option.defaultBaseUrl).replace(/\/+$/, "")
+  }
+}
+
+/**
+ * Persists settings for a provider and makes it the active one.
+ * @param storage The storage instance to write to
+ * @param settings The settings to save
+ */
+export async function saveProviderSettings(
+  storage: Storage,
+  settings: ProviderSettings
+): Promise<void> {
+  const option = PROVIDER_OPTIONS[settings.provider]
+
+  await storage.set(option.storageKeys.apiKey, settings.apiKey.trim())
+  await storage.set(option.storageKeys.model, settings.model.trim())
+  await storage.set(option.storageKeys.baseUrl, settings.baseUrl.trim())
+  await storage.set(PROVIDER_STORAGE_KEY, settings.provider)
+}
+
+/**
+ * Checks whether the provider has everything it needs to make a request.
+ * @param settings The provider settings to check
+ * @returns True if the provider can be used
+ */
+export function isProviderConfigured(settings: ProviderSettings): boolean {
+  if (!settings.baseUrl || !settings.model) {
+    return false
+  }
+
+  return (
+    !PROVIDER_OPTIONS[settings.provider].requiresApiKey || !!settings.apiKey
+  )
+}
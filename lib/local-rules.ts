@@ -0,0 +1,134 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * Rules that assign a category to a post without calling an LLM.
+ */
+export interface CategoryRules {
+  // Whole words, matched case-insensitively
+  keywords: string[]
+  // Multi-word phrases, matched case-insensitively
+  phrases: string[]
+  // Regular expression sources, matched case-insensitively
+  patterns: string[]
+  // Substrings of the author name
+  authors: string[]
+}
+
+/**
+ * Rules keyed by upper-case category name.
+ */
+export type LocalRules = Record<string, CategoryRules>
+
+export const LOCAL_RULES_STORAGE_KEY = "local-rules"
+
+export const EMPTY_CATEGORY_RULES: CategoryRules = {
+  keywords: [],
+  phrases: [],
+  patterns: [],
+  authors: []
+}
+
+export const DEFAULT_LOCAL_RULES: LocalRules = {
+  BRAGGING: {
+    keywords: [],
+    phrases: [
+      "humbled to announce",
+      "thrilled to announce",
+      "proud to announce",
+      "excited to share",
+      "i'm honored",
+      "grateful to have been recognized"
+    ],
+    patterns: [],
+    authors: []
+  },
+  PROMOTIONAL: {
+    keywords: ["webinar", "discount", "giveaway"],
+    phrases: [
+      "link in bio",
+      "use code",
+      "sign up now",
+      "limited time",
+      "dm me"
+    ],
+    patterns: ["\\d+% off"],
+    authors: []
+  },
+  POLITICS: {
+    keywords: [
+      "congress",
+      "senate",
+      "senator",
+      "election",
+      "democrats",
+      "republicans",
+      "legislation"
+    ],
+    phrases: ["executive order", "white house", "supreme court"],
+    patterns: [],
+    authors: ["The White House", "POTUS"]
+  },
+  AI: {
+    keywords: ["chatgpt", "llm", "llms", "openai", "anthropic", "genai"],
+    phrases: [
+      "artificial intelligence",
+      "machine learning",
+      "large language model"
+    ],
+    patterns: [],
+    authors: []
+  }
+}
+
+/**
+ * Ensures a stored rule set has every field as an array of strings.
+ * @param rules The raw rules from storage
+ * @returns The normalized rules
+ */
+export function normalizeCategoryRules(
+  rules: Partial<CategoryRules> | undefined
+): CategoryRules {
+  const clean = (values: unknown) =>
+    Array.isArray(values)
+      ? values.map((value) => String(value).trim()).filter(Boolean)
+      : []
+
+  return {
+    keywords: clean(rules?.keywords),
+    phrases: clean(rules?.phrases),
+    patterns: clean(rules?.patterns),
+    authors: clean(rules?.authors)
+  }
+}
+
+/**
+ * Reads the local classifier rules, falling back to the defaults.
+ * @param storage The storage instance to read from
+ * @returns The rules keyed by upper-case category
+ */
+export async function loadLocalRules(storage: Storage): Promise<LocalRules> {
+  const stored = await storage.get<LocalRules>(LOCAL_RULES_STORAGE_KEY)
+  const rules =
+    stored && typeof stored === "object" ? stored : DEFAULT_LOCAL_RULES
+
+  return Object.fromEntries(
+    Object.entries(rules).map(([category, categoryRules]) => [
+      category.toUpperCase(),
+      normalizeCategoryRules(categoryRules)
+    ])
+  )
+}
+
+/**
+ * Checks a regular expression source before it is saved.
+ * @param pattern The regular expression source
+ * @returns An error message, or null if the pattern compiles
+ */
+export function validatePattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern, "i")
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
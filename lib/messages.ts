@@ -0,0 +1,451 @@
+import { sendToBackground } from "@plasmohq/messaging"
+
+import type {
+  CategoryResponse,
+  UserCategories
+} from "~background/categorizer/types"
+import type { QueueState } from "~background/request-queue"
+
+import {
+  isCategorizationError,
+  type CategorizationErrorCode
+} from "./categorization-errors"
+import type { PostImage } from "./vision-settings"
+
+/**
+ * Bumped whenever a message's request or response changes shape. A content
+ * script left running across an extension update still speaks the old
+ * version, and is told so instead of being misread.
+ */
+export const PROTOCOL_VERSION = 4
+
+export interface CategorizePostRequest {
+  // The content script's post hash
+  postId?: string
+  // Lets the sender cancel the request with cancel-categorization
+  requestId?: string
+  text: string
+  authorName?: string
+  images?: PostImage[]
+  userCategories: UserCategories
+}
+
+export type CategorizePostResponse = CategoryResponse | { cancelled: true }
+
+/**
+ * Asks the background to push an action to one feed tab, or all of them.
+ */
+export interface RelayRequest<A extends ContentAction = ContentAction> {
+  action: A
+  data: ContentActionMap[A]
+  tabId?: number
+}
+
+export interface SubmitFeedbackRequest {
+  postId: string
+  text: string
+  authorName?: string
+  predicted: string[]
+  confirmed: string[]
+  rejected: string[]
+}
+
+/**
+ * Every message the background handles, with its request and response.
+ */
+export interface MessageMap {
+  "categorize-post": {
+    request: CategorizePostRequest
+    response: CategorizePostResponse
+  }
+  "cancel-categorization": {
+    request: { requestId: string }
+    response: { cancelled: boolean }
+  }
+  "submit-feedback": {
+    request: SubmitFeedbackRequest
+    response: { success: boolean; examples?: number; error?: string }
+  }
+  "get-queue-state": {
+    request: Record<string, never>
+    response: QueueState
+  }
+  "get-cache-stats": {
+    request: Record<string, never>
+    response: { entries: number }
+  }
+  "clear-categorization-cache": {
+    request: Record<string, never>
+    response: { success: boolean; error?: string }
+  }
+  "filter-videos": {
+    request: { videos: unknown[] }
+    response: unknown
+  }
+  "send-video-link": {
+    request: { url: string; title?: string }
+    response: { success: boolean; data?: unknown; error?: string }
+  }
+  "register-tab": {
+    request: Record<string, never>
+    response: { tabId: number | null }
+  }
+  "relay-to-content": {
+    request: RelayRequest
+    response: DeliveryReport
+  }
+}
+
+export type MessageName = keyof MessageMap
+export type MessageRequest<N extends MessageName> = MessageMap[N]["request"]
+export type MessageResponse<N extends MessageName> = MessageMap[N]["response"]
+
+/**
+ * Actions the background pushes to content scripts, with their data.
+ */
+export interface ContentActionMap {
+  "category-update": { timestamp: number }
+  // Another filter profile was applied; also a category update
+  "profile-change": { timestamp: number; name: string }
+  "enabled-change": { enabled: boolean }
+  "cache-invalidated": { timestamp: number }
+  // Settings that fix these errors changed
+  "retry-failed": { codes: CategorizationErrorCode[] }
+  // The whole result, so receiving tabs can apply score, tone and
+  // AI-generated limits and explain covers without asking again
+  "categorization-result": CategoryResponse & { postHash: string }
+}
+
+export type ContentAction = keyof ContentActionMap
+
+/**
+ * An action pushed from the background to a content script.
+ */
+export interface BackgroundMessage<A extends ContentAction = ContentAction> {
+  type: "from-background"
+  action: A
+  data: ContentActionMap[A]
+  // The sender's PROTOCOL_VERSION
+  protocolVersion: number
+}
+
+/**
+ * Which tabs acknowledged a pushed action.
+ */
+export interface DeliveryReport {
+  delivered: number[]
+  failed: number[]
+}
+
+/**
+ * What a handler sends back instead of a response when it rejects a request.
+ */
+export interface ProtocolErrorResponse {
+  protocolError: string
+}
+
+/**
+ * What a handler sends back when it failed to answer a valid request.
+ */
+export interface HandlerErrorResponse {
+  handlerError: string
+}
+
+/**
+ * Thrown when one side of a message does not match the contract.
+ */
+export class MessageProtocolError extends Error {
+  constructor(
+    public readonly messageName: string,
+    message: string
+  ) {
+    super(`Message "${messageName}": ${message}`)
+    this.name = "MessageProtocolError"
+  }
+}
+
+/**
+ * Thrown when a background handler failed to answer a valid request.
+ */
+export class MessageHandlerError extends Error {
+  constructor(
+    public readonly messageName: string,
+    message: string
+  ) {
+    super(`Message "${messageName}" failed: ${message}`)
+    this.name = "MessageHandlerError"
+  }
+}
+
+type Check = (value: unknown) => string | null
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+/**
+ * Builds a check that every listed field has the expected type.
+ * @param fields Field names mapped to a type test and its description;
+ *   names ending in "?" may be missing
+ * @returns The check, which names the first mismatching field
+ */
+function fields(
+  fields: Record<string, [(value: unknown) => boolean, string]>
+): Check {
+  return (value) => {
+    if (!isObject(value)) {
+      return "expected an object"
+    }
+
+    for (const [name, [test, description]] of Object.entries(fields)) {
+      const optional = name.endsWith("?")
+      const key = optional ? name.slice(0, -1) : name
+      if (optional && value[key] === undefined) continue
+      if (!test(value[key])) {
+        return `"${key}" must be ${description}`
+      }
+    }
+    return null
+  }
+}
+
+const string: [(value: unknown) => boolean, string] = [
+  (value) => typeof value === "string",
+  "a string"
+]
+const number: [(value: unknown) => boolean, string] = [
+  (value) => typeof value === "number",
+  "a number"
+]
+const numberRecord: [(value: unknown) => boolean, string] = [
+  (value) =>
+    isObject(value) &&
+    Object.values(value).every((item) => typeof item === "number"),
+  "an object of numbers"
+]
+const stringRecord: [(value: unknown) => boolean, string] = [
+  (value) =>
+    isObject(value) &&
+    Object.values(value).every((item) => typeof item === "string"),
+  "an object of strings"
+]
+const boolean: [(value: unknown) => boolean, string] = [
+  (value) => typeof value === "boolean",
+  "a boolean"
+]
+const strings: [(value: unknown) => boolean, string] = [
+  isStringArray,
+  "an array of strings"
+]
+const numbers: [(value: unknown) => boolean, string] = [
+  (value) =>
+    Array.isArray(value) && value.every((item) => typeof item === "number"),
+  "an array of numbers"
+]
+
+const REQUEST_CHECKS: Record<MessageName, Check> = {
+  "categorize-post": fields({
+    "postId?": string,
+    "requestId?": string,
+    text: string,
+    "authorName?": string,
+    "images?": [
+      (value) =>
+        Array.isArray(value) &&
+        value.every(
+          (image) => isObject(image) && typeof image.url === "string"
+        ),
+      "an array of { url, alt? }"
+    ],
+    userCategories: [
+      (value) =>
+        isObject(value) &&
+        isStringArray(value.include) &&
+        isStringArray(value.exclude),
+      "{ include: string[], exclude: string[] }"
+    ]
+  }),
+  "cancel-categorization": fields({ requestId: string }),
+  "submit-feedback": fields({
+    postId: string,
+    text: string,
+    "authorName?": string,
+    predicted: strings,
+    confirmed: strings,
+    rejected: strings
+  }),
+  "get-queue-state": fields({}),
+  "get-cache-stats": fields({}),
+  "clear-categorization-cache": fields({}),
+  "filter-videos": fields({
+    videos: [Array.isArray, "an array"]
+  }),
+  "send-video-link": fields({ url: string, "title?": string }),
+  "register-tab": fields({}),
+  "relay-to-content": (value) => {
+    if (!isObject(value)) {
+      return "expected an object"
+    }
+    const action = String(value.action)
+    return (
+      fields({
+        action: [(action) => typeof action === "string", "a content action"],
+        "tabId?": number
+      })(value) ??
+      (action in CONTENT_ACTION_CHECKS
+        ? CONTENT_ACTION_CHECKS[action as ContentAction](value.data)
+        : `unknown action "${action}"`)
+    )
+  }
+}
+
+const RESPONSE_CHECKS: Record<MessageName, Check> = {
+  "categorize-post": (value) =>
+    isObject(value) && value.cancelled === true
+      ? null
+      : fields({
+          categories: strings,
+          confidence: number,
+          tldr: string,
+          "error?": [isCategorizationError, "{ code, message }"]
+        })(value),
+  "cancel-categorization": fields({ cancelled: boolean }),
+  "submit-feedback": fields({ success: boolean }),
+  "get-queue-state": fields({
+    status: string,
+    queued: number,
+    active: number,
+    retrying: number
+  }),
+  "get-cache-stats": fields({ entries: number }),
+  "clear-categorization-cache": fields({ success: boolean }),
+  // Proxied from the video service as is
+  "filter-videos": () => null,
+  "send-video-link": fields({ success: boolean }),
+  "register-tab": (value) =>
+    isObject(value) && (value.tabId === null || typeof value.tabId === "number")
+      ? null
+      : '"tabId" must be a number or null',
+  "relay-to-content": fields({ delivered: numbers, failed: numbers })
+}
+
+const CONTENT_ACTION_CHECKS: Record<ContentAction, Check> = {
+  "category-update": fields({ timestamp: number }),
+  "profile-change": fields({ timestamp: number, name: string }),
+  "enabled-change": fields({ enabled: boolean }),
+  "cache-invalidated": fields({ timestamp: number }),
+  "retry-failed": fields({ codes: strings }),
+  "categorization-result": fields({
+    postHash: string,
+    categories: strings,
+    confidence: number,
+    scores: numberRecord,
+    "rationales?": stringRecord,
+    "tone?": numberRecord,
+    "aiJudgment?": number,
+    "aiGenerated?": [
+      (value) =>
+        isObject(value) &&
+        typeof value.score === "number" &&
+        isStringArray(value.signals),
+      "{ score, signals }"
+    ],
+    tldr: string
+  })
+}
+
+/**
+ * Checks that a message names a known handler and that its body matches
+ * the contract and protocol version.
+ * @param name The message name
+ * @param body The request body, including its protocol version
+ * @returns The problem, or null when the request is valid
+ */
+export function checkRequest(name: string, body: unknown): string | null {
+  if (!(name in REQUEST_CHECKS)) {
+    return `unknown message "${name}"`
+  }
+  if (!isObject(body) || body.protocolVersion !== PROTOCOL_VERSION) {
+    return `protocol version ${
+      isObject(body) ? String(body.protocolVersion) : "undefined"
+    } does not match ${PROTOCOL_VERSION}; reload the page after updating Feed.ly`
+  }
+
+  const { protocolVersion, ...request } = body
+  return REQUEST_CHECKS[name as MessageName](request)
+}
+
+/**
+ * Checks that a background action sent to a content script matches the
+ * contract and protocol version.
+ * @param action The action name
+ * @param data The action data
+ * @param protocolVersion The version the sender speaks
+ * @returns The problem, or null when the action is valid
+ */
+export function checkContentAction(
+  action: string,
+  data: unknown,
+  protocolVersion: unknown
+): string | null {
+  if (!(action in CONTENT_ACTION_CHECKS)) {
+    return `unknown action "${action}"`
+  }
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    return `protocol version ${String(protocolVersion)} does not match ${PROTOCOL_VERSION}`
+  }
+
+  return CONTENT_ACTION_CHECKS[action as ContentAction](data)
+}
+
+/**
+ * Sends a message to its background handler and checks the response.
+ * @param name The message name
+ * @param body The request
+ * @returns The handler's response
+ * @throws MessageProtocolError when either side breaks the contract
+ * @throws MessageHandlerError when the handler failed
+ */
+export async function sendMessage<N extends MessageName>(
+  name: N,
+  body: MessageRequest<N>
+): Promise<MessageResponse<N>> {
+  const problem = REQUEST_CHECKS[name](body)
+  if (problem) {
+    throw new MessageProtocolError(name, `invalid request, ${problem}`)
+  }
+
+  const response = await sendToBackground({
+    name,
+    body: { ...body, protocolVersion: PROTOCOL_VERSION }
+  })
+
+  if (isObject(response) && typeof response.protocolError === "string") {
+    throw new MessageProtocolError(name, response.protocolError)
+  }
+  if (isObject(response) && typeof response.handlerError === "string") {
+    throw new MessageHandlerError(name, response.handlerError)
+  }
+
+  const responseProblem = RESPONSE_CHECKS[name](response)
+  if (responseProblem) {
+    throw new MessageProtocolError(name, `invalid response, ${responseProblem}`)
+  }
+
+  return response as MessageResponse<N>
+}
+
+/**
+ * Checks a response from a background handler against the contract.
+ * @param name The message name
+ * @param response The handler's response
+ * @returns The problem, or null when the response is valid
+ */
+export function checkResponse(
+  name: MessageName,
+  response: unknown
+): string | null {
+  return RESPONSE_CHECKS[name](response)
+}
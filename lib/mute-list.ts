@@ -0,0 +1,145 @@
+import type { Storage } from "@plasmohq/storage"
+
+export type MuteEntryType = "word" | "phrase" | "regex"
+
+/**
+ * A literal term that hides a post without asking the AI.
+ */
+export interface MuteEntry {
+  id: string
+  type: MuteEntryType
+  value: string
+  caseSensitive: boolean
+  // Only match where the term is not part of a longer word
+  wholeWord: boolean
+}
+
+export interface MuteMatch {
+  entry: MuteEntry
+  // The text in the post that matched
+  matchedText: string
+}
+
+export const MUTE_LIST_STORAGE_KEY = "mute-list"
+
+export const MUTE_ENTRY_TYPES: { id: MuteEntryType; label: string }[] = [
+  { id: "word", label: "Word" },
+  { id: "phrase", label: "Phrase" },
+  { id: "regex", label: "Regex" }
+]
+
+const isMuteEntryType = (value: unknown): value is MuteEntryType =>
+  MUTE_ENTRY_TYPES.some(({ id }) => id === value)
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Reads the mute list, dropping blank and malformed entries.
+ * @param storage The storage instance to read from
+ * @returns The entries in the order the user listed them
+ */
+export async function loadMuteList(storage: Storage): Promise<MuteEntry[]> {
+  const stored = await storage.get<MuteEntry[]>(MUTE_LIST_STORAGE_KEY)
+  if (!Array.isArray(stored)) {
+    return []
+  }
+
+  return stored
+    .filter(
+      (entry) =>
+        entry &&
+        typeof entry.id === "string" &&
+        typeof entry.value === "string" &&
+        entry.value.trim()
+    )
+    .map((entry) => ({
+      id: entry.id,
+      type: isMuteEntryType(entry.type) ? entry.type : "word",
+      value: entry.type === "regex" ? entry.value : entry.value.trim(),
+      caseSensitive: entry.caseSensitive === true,
+      wholeWord: entry.wholeWord !== false
+    }))
+}
+
+/**
+ * Compiles an entry into the regular expression that finds it. Words and
+ * phrases match across any run of whitespace; whole-word matching treats
+ * letters and digits of any script as word characters.
+ * @param entry The entry
+ * @returns The regular expression
+ * @throws SyntaxError when a regex entry does not compile
+ */
+export function compileMuteEntry(entry: MuteEntry): RegExp {
+  if (entry.type === "regex") {
+    // User patterns may not be valid in unicode mode
+    const source = entry.wholeWord
+      ? `(?<![\\w])(?:${entry.value})(?![\\w])`
+      : entry.value
+    return new RegExp(source, entry.caseSensitive ? "" : "i")
+  }
+
+  const source = entry.value
+    .replace(/[’‘]/g, "'")
+    .trim()
+    .split(/\s+/)
+    .map(escapeRegExp)
+    .join("\\s+")
+  return new RegExp(
+    entry.wholeWord
+      ? `(?<![\\p{L}\\p{N}_])${source}(?![\\p{L}\\p{N}_])`
+      : source,
+    entry.caseSensitive ? "u" : "iu"
+  )
+}
+
+/**
+ * Checks an entry before it is saved.
+ * @param entry The entry
+ * @returns An error message, or null if the entry can be matched
+ */
+export function validateMuteEntry(entry: MuteEntry): string | null {
+  if (!entry.value.trim()) {
+    return "Enter a term"
+  }
+  if (entry.type === "word" && /\s/.test(entry.value.trim())) {
+    return "A word cannot contain spaces; use a phrase"
+  }
+  try {
+    compileMuteEntry(entry)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Finds the first entry a post's text matches. Curly apostrophes count as
+ * straight ones, so "I'm humbled" matches either. Entries that no longer
+ * compile are skipped.
+ * @param entries The mute list
+ * @param text The post text
+ * @returns The matching entry and text, or null
+ */
+export function findMutedTerm(
+  entries: MuteEntry[],
+  text: string
+): MuteMatch | null {
+  const normalizedText = text.replace(/[’‘]/g, "'")
+
+  for (const entry of entries) {
+    let pattern: RegExp
+    try {
+      pattern = compileMuteEntry(entry)
+    } catch (error) {
+      console.warn(`⚠️ [Mute] Skipping invalid entry "${entry.value}":`, error)
+      continue
+    }
+
+    const match = pattern.exec(normalizedText)
+    if (match) {
+      return { entry, matchedText: match[0] }
+    }
+  }
+  return null
+}
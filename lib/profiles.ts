@@ -0,0 +1,230 @@
+import type { Storage } from "@plasmohq/storage"
+
+import {
+  FILTER_MODE_STORAGE_KEY,
+  isFilterMode,
+  loadFilterMode,
+  type FilterMode
+} from "./filter-mode"
+import {
+  FILTER_RULES_STORAGE_KEY,
+  loadFilterRules,
+  type FilterRule
+} from "./filter-rules"
+import {
+  loadMuteList,
+  MUTE_LIST_STORAGE_KEY,
+  type MuteEntry
+} from "./mute-list"
+import {
+  loadThresholds,
+  THRESHOLDS_STORAGE_KEY,
+  type BlockThresholds
+} from "./thresholds"
+
+/**
+ * The include and exclude lists, as stored under `user-categories`.
+ */
+export interface CategoryLists {
+  include: string[]
+  exclude: string[]
+}
+
+/**
+ * The filter settings a profile swaps in as a whole.
+ */
+export interface ProfileSettings {
+  categories: CategoryLists
+  filterMode: FilterMode
+  thresholds: BlockThresholds
+  muteList: MuteEntry[]
+  filterRules: FilterRule[]
+}
+
+/**
+ * A named set of filter settings, e.g. "Deep work" or "Catch-up". Settings
+ * a profile leaves out, as in profiles saved before it held them, are kept
+ * as they are when it is applied.
+ */
+export interface FilterProfile extends Partial<ProfileSettings> {
+  id: string
+  name: string
+  categories: CategoryLists
+}
+
+// Kept in the local area, since profiles hold whole mute lists and rules
+// and a sync item allows only 8 KB
+export const PROFILES_STORAGE_KEY = "filter-profiles"
+
+// The id of the profile whose settings are in use
+export const ACTIVE_PROFILE_STORAGE_KEY = "active-profile"
+
+const USER_CATEGORIES_STORAGE_KEY = "user-categories"
+
+const cleanCategories = (values: unknown): string[] =>
+  Array.isArray(values)
+    ? [
+        ...new Set(values.map((value) => String(value).trim().toUpperCase()))
+      ].filter(Boolean)
+    : []
+
+/**
+ * Reads the saved profiles, dropping malformed entries.
+ * @param profileStorage The local storage instance profiles are kept in
+ * @returns The profiles in the order the user listed them
+ */
+export async function loadProfiles(
+  profileStorage: Storage
+): Promise<FilterProfile[]> {
+  const stored = await profileStorage.get<FilterProfile[]>(PROFILES_STORAGE_KEY)
+  if (!Array.isArray(stored)) {
+    return []
+  }
+
+  return stored
+    .filter((profile) => profile && typeof profile.id === "string")
+    .map((profile) => ({
+      id: profile.id,
+      name: String(profile.name ?? "").trim() || "Untitled profile",
+      categories: {
+        include: cleanCategories(profile.categories?.include),
+        exclude: cleanCategories(profile.categories?.exclude)
+      },
+      // The live loaders normalize these once they are applied
+      ...(isFilterMode(profile.filterMode)
+        ? { filterMode: profile.filterMode }
+        : {}),
+      ...(profile.thresholds && typeof profile.thresholds === "object"
+        ? { thresholds: profile.thresholds }
+        : {}),
+      ...(Array.isArray(profile.muteList)
+        ? { muteList: profile.muteList }
+        : {}),
+      ...(Array.isArray(profile.filterRules)
+        ? { filterRules: profile.filterRules }
+        : {})
+    }))
+}
+
+/**
+ * Reads the id of the profile in use.
+ * @param storage The storage instance to read from
+ * @returns The profile id, or null if none was applied
+ */
+export async function loadActiveProfileId(
+  storage: Storage
+): Promise<string | null> {
+  const stored = await storage.get<string>(ACTIVE_PROFILE_STORAGE_KEY)
+  return typeof stored === "string" ? stored : null
+}
+
+/**
+ * Reads the settings currently in use.
+ * @param storage The storage instance to read from
+ * @returns The settings, ready to save into a profile
+ */
+export async function loadCurrentSettings(
+  storage: Storage
+): Promise<ProfileSettings> {
+  const [categories, filterMode, thresholds, muteList, filterRules] =
+    await Promise.all([
+      storage.get<CategoryLists>(USER_CATEGORIES_STORAGE_KEY),
+      loadFilterMode(storage),
+      loadThresholds(storage),
+      loadMuteList(storage),
+      loadFilterRules(storage)
+    ])
+
+  return {
+    categories: {
+      include: cleanCategories(categories?.include),
+      exclude: cleanCategories(categories?.exclude)
+    },
+    filterMode,
+    thresholds,
+    muteList,
+    filterRules
+  }
+}
+
+/**
+ * Makes a profile's settings the ones in use, in a single write. Open feed
+ * tabs pick up the change through the storage watchers in the broadcaster.
+ * @param storage The storage instance to write to
+ * @param profile The profile to apply
+ */
+export async function applyProfile(
+  storage: Storage,
+  profile: FilterProfile
+): Promise<void> {
+  await storage.setMany({
+    [USER_CATEGORIES_STORAGE_KEY]: profile.categories,
+    ...(profile.filterMode
+      ? { [FILTER_MODE_STORAGE_KEY]: profile.filterMode }
+      : {}),
+    ...(profile.thresholds
+      ? { [THRESHOLDS_STORAGE_KEY]: profile.thresholds }
+      : {}),
+    ...(profile.muteList ? { [MUTE_LIST_STORAGE_KEY]: profile.muteList } : {}),
+    ...(profile.filterRules
+      ? { [FILTER_RULES_STORAGE_KEY]: profile.filterRules }
+      : {}),
+    [ACTIVE_PROFILE_STORAGE_KEY]: profile.id
+  })
+}
+
+/**
+ * Switches to another profile. Changes made since the current profile was
+ * applied, e.g. categories added from the popup, are saved into it first,
+ * so switching back restores them.
+ * @param storage The storage instance holding the settings in use
+ * @param profileStorage The local storage instance profiles are kept in
+ * @param profileId The profile to switch to
+ * @returns The profile switched to, or null if it no longer exists
+ */
+export async function switchProfile(
+  storage: Storage,
+  profileStorage: Storage,
+  profileId: string
+): Promise<FilterProfile | null> {
+  const [profiles, activeProfileId] = await Promise.all([
+    loadProfiles(profileStorage),
+    loadActiveProfileId(storage)
+  ])
+  const profile = profiles.find(({ id }) => id === profileId)
+  if (!profile) {
+    return null
+  }
+
+  // Already in use, possibly with changes that would be lost
+  if (activeProfileId === profileId) {
+    return profile
+  }
+
+  const current = await loadCurrentSettings(storage)
+  const updated = profiles.map((candidate) =>
+    candidate.id === activeProfileId ? { ...candidate, ...current } : candidate
+  )
+  await profileStorage.set(PROFILES_STORAGE_KEY, updated)
+
+  await applyProfile(storage, profile)
+  return profile
+}
+
+/**
+ * Picks the profile after the active one, wrapping around, for cycling
+ * through profiles with the keyboard shortcut.
+ * @param profiles The profiles
+ * @param activeProfileId The profile in use
+ * @returns The next profile id, or null if there are no profiles
+ */
+export function getNextProfileId(
+  profiles: FilterProfile[],
+  activeProfileId: string | null
+): string | null {
+  if (profiles.length === 0) {
+    return null
+  }
+  const index = profiles.findIndex(({ id }) => id === activeProfileId)
+  return profiles[(index + 1) % profiles.length].id
+}
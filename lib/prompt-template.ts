@@ -0,0 +1,188 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * The user-editable parts of the categorization prompt.
+ */
+export interface PromptTemplate {
+  // Wraps the whole request; must contain {{posts}}
+  system: string
+  // Rendered once per post and joined into {{posts}}
+  post: string
+  // Bumped on every save so cached results from older prompts are not reused
+  version: number
+}
+
+/**
+ * A post as it is rendered into the prompt.
+ */
+export interface PromptPost {
+  key: string
+  text: string
+  authorName?: string
+}
+
+export const PROMPT_TEMPLATE_STORAGE_KEY = "prompt-template"
+
+export const SYSTEM_PLACEHOLDERS = [
+  { name: "categories", description: "Bulleted list of allowed categories" },
+  {
+    name: "category_definitions",
+    description: "What each category means, where defined"
+  },
+  { name: "posts", description: "Every post, rendered with the post template" }
+]
+
+export const POST_PLACEHOLDERS = [
+  { name: "post_id", description: "Key the model must echo back" },
+  { name: "author", description: "Author name, or Unknown" },
+  { name: "post_text", description: "Extracted post text" }
+]
+
+const REQUIRED_SYSTEM_PLACEHOLDERS = ["posts"]
+const REQUIRED_POST_PLACEHOLDERS = ["post_id", "post_text"]
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  system: `You are an expert content categorizer for a social media filtering system. Your task is to analyze social media posts and assign the most appropriate categories.
+
+## CATEGORIES:
+{{categories}}
+
+## CATEGORY DEFINITIONS:
+{{category_definitions}}
+
+## INSTRUCTIONS:
+1. Analyze each of the following social media posts independently
+2. Consider the author's identity when it is relevant to a category
+3. Assign ALL relevant categories from the list above, and only categories from that list
+4. Provide a 1-2 sentence TL;DR of the post content
+
+## POSTS TO CATEGORIZE:
+{{posts}}
+
+Analyze both explicit and implicit content.`,
+  post: `### POST {{post_id}}
+Author: {{author}}
+"""
+{{post_text}}
+"""`,
+  version: 0
+}
+
+/**
+ * Replaces every {{name}} placeholder that has a value; unknown
+ * placeholders are left untouched.
+ * @param template The template text
+ * @param values The placeholder values
+ * @returns The rendered text
+ */
+export function fillPlaceholders(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/{{\s*([a-z_]+)\s*}}/g, (placeholder, name) =>
+    name in values ? values[name] : placeholder
+  )
+}
+
+/**
+ * Renders the editable part of the categorization prompt.
+ * @param template The prompt template
+ * @param posts The posts to categorize
+ * @param categories Every category the model may assign
+ * @param definitions Descriptions keyed by category, where the user gave one
+ * @returns The rendered prompt
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  posts: PromptPost[],
+  categories: string[],
+  definitions: Record<string, string> = {}
+): string {
+  const renderedPosts = posts
+    .map((post) =>
+      fillPlaceholders(template.post, {
+        post_id: post.key,
+        author: post.authorName ? `"${post.authorName}"` : "Unknown",
+        post_text: post.text
+      })
+    )
+    .join("\n\n")
+
+  const definitionLines = categories
+    .filter((category) => definitions[category])
+    .map((category) => `- ${category}: ${definitions[category]}`)
+
+  return fillPlaceholders(template.system, {
+    categories: categories.map((category) => `- ${category}`).join("\n"),
+    category_definitions:
+      definitionLines.length > 0
+        ? definitionLines.join("\n")
+        : "No definitions provided; use the common meaning of each category name.",
+    posts: renderedPosts
+  })
+}
+
+/**
+ * Lists the required placeholders a template is missing.
+ * @param template The template to check
+ * @returns Human readable problems, empty if the template is usable
+ */
+export function validatePromptTemplate(
+  template: Pick<PromptTemplate, "system" | "post">
+): string[] {
+  const missing = (text: string, names: string[]) =>
+    names.filter((name) => !new RegExp(`{{\\s*${name}\\s*}}`).test(text))
+
+  return [
+    ...missing(template.system, REQUIRED_SYSTEM_PLACEHOLDERS).map(
+      (name) => `The prompt template must contain {{${name}}}.`
+    ),
+    ...missing(template.post, REQUIRED_POST_PLACEHOLDERS).map(
+      (name) => `The post template must contain {{${name}}}.`
+    )
+  ]
+}
+
+/**
+ * Reads the prompt template, falling back to the default when none is saved
+ * or the saved one is unusable.
+ * @param storage The storage instance to read from
+ * @returns The prompt template
+ */
+export async function loadPromptTemplate(
+  storage: Storage
+): Promise<PromptTemplate> {
+  const stored = await storage.get<PromptTemplate>(PROMPT_TEMPLATE_STORAGE_KEY)
+
+  if (
+    !stored ||
+    typeof stored.system !== "string" ||
+    typeof stored.post !== "string" ||
+    validatePromptTemplate(stored).length > 0
+  ) {
+    return { ...DEFAULT_PROMPT_TEMPLATE, version: stored?.version ?? 0 }
+  }
+
+  return { ...stored, version: Number(stored.version) || 0 }
+}
+
+/**
+ * Saves a prompt template under a new version number.
+ * @param storage The storage instance to write to
+ * @param template The template text to save
+ * @returns The saved template
+ */
+export async function savePromptTemplate(
+  storage: Storage,
+  template: Pick<PromptTemplate, "system" | "post">
+): Promise<PromptTemplate> {
+  const current = await loadPromptTemplate(storage)
+  const saved = {
+    system: template.system,
+    post: template.post,
+    version: current.version + 1
+  }
+
+  await storage.set(PROMPT_TEMPLATE_STORAGE_KEY, saved)
+  return saved
+}
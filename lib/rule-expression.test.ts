@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  evaluateRuleExpression,
+  getExpressionCategories,
+  parseRuleExpression,
+  validateRuleExpression,
+  type RuleContext
+} from "./rule-expression"
+import { DEFAULT_THRESHOLDS } from "./thresholds"
+
+const category = (name: string) => ({ type: "category", category: name })
+
+const context = (overrides: Partial<RuleContext> = {}): RuleContext => ({
+  text: "Excited to share that our AI startup is hiring. Open to work? DM me!",
+  authorName: "Jane Doe",
+  platform: "linkedin",
+  result: {
+    categories: ["PROMOTIONAL"],
+    confidence: 0.9,
+    scores: { PROMOTIONAL: 0.8, POLITICS: 0.4, MEME: 0.1 },
+    tone: { OUTRAGE: 0.7, TOXICITY: 0.2 },
+    aiGenerated: { score: 0.85 }
+  },
+  thresholds: DEFAULT_THRESHOLDS,
+  ...overrides
+})
+
+const matches = (source: string, overrides?: Partial<RuleContext>) =>
+  evaluateRuleExpression(parseRuleExpression(source), context(overrides))
+
+describe("parseRuleExpression", () => {
+  it("binds AND tighter than OR", () => {
+    expect(parseRuleExpression("A OR B AND C")).toEqual({
+      type: "or",
+      left: category("A"),
+      right: { type: "and", left: category("B"), right: category("C") }
+    })
+  })
+
+  it("binds NOT tighter than AND", () => {
+    expect(parseRuleExpression("NOT A AND B")).toEqual({
+      type: "and",
+      left: { type: "not", operand: category("A") },
+      right: category("B")
+    })
+  })
+
+  it("groups with parentheses", () => {
+    expect(parseRuleExpression("(A OR B) AND NOT (C)")).toEqual({
+      type: "and",
+      left: { type: "or", left: category("A"), right: category("B") },
+      right: { type: "not", operand: category("C") }
+    })
+  })
+
+  it("reads keywords and categories in any case", () => {
+    expect(parseRuleExpression("politics and not meme")).toEqual({
+      type: "and",
+      left: category("POLITICS"),
+      right: { type: "not", operand: category("MEME") }
+    })
+  })
+
+  it("reads quoted categories and field values", () => {
+    expect(parseRuleExpression('"self promo" OR author:"My Senator"')).toEqual({
+      type: "or",
+      left: category("SELF PROMO"),
+      right: { type: "author", value: "My Senator" }
+    })
+  })
+
+  it("reads words with hyphens and underscores, and bare decimals", () => {
+    expect(parseRuleExpression("tone:engagement-bait>=.5")).toEqual({
+      type: "score",
+      target: { kind: "tone", dimension: "ENGAGEMENT_BAIT" },
+      operator: ">=",
+      value: 0.5
+    })
+    expect(parseRuleExpression("SELF_PROMO")).toEqual(category("SELF_PROMO"))
+  })
+
+  it.each([">", ">=", "<", "<=", "="])("reads the %s operator", (operator) => {
+    expect(parseRuleExpression(`ai-generated ${operator} 0.8`)).toEqual({
+      type: "score",
+      target: { kind: "ai-generated" },
+      operator,
+      value: 0.8
+    })
+  })
+
+  it("reads each field", () => {
+    expect(parseRuleExpression("keyword:crypto")).toEqual({
+      type: "keyword",
+      value: "crypto"
+    })
+    expect(parseRuleExpression("platform:x")).toEqual({
+      type: "platform",
+      platform: "twitter"
+    })
+    expect(parseRuleExpression("PROMOTIONAL >= 0.6")).toEqual({
+      type: "score",
+      target: { kind: "category", category: "PROMOTIONAL" },
+      operator: ">=",
+      value: 0.6
+    })
+  })
+
+  it("treats a quoted ai-generated as a category", () => {
+    expect(parseRuleExpression('"ai-generated"')).toEqual(
+      category("AI-GENERATED")
+    )
+  })
+})
+
+describe("validateRuleExpression", () => {
+  it("accepts a valid expression", () => {
+    expect(
+      validateRuleExpression(
+        'POLITICS AND NOT author:"My Senator" OR tone:outrage >= 0.6'
+      )
+    ).toBeNull()
+  })
+
+  it.each([
+    ["", "The rule is empty (at character 1)"],
+    [
+      "POLITICS AND",
+      "Expected a condition at the end of the rule (at character 13)"
+    ],
+    [
+      "POLITICS MEME",
+      "Expected AND or OR between conditions (at character 10)"
+    ],
+    ["POLITICS)", 'Unexpected ")" (at character 9)'],
+    [")", 'Expected a condition, found ")" (at character 1)'],
+    ["AND MEME", "Expected a condition, found AND (at character 1)"],
+    ["(POLITICS OR MEME", 'Missing closing ")" (at character 1)'],
+    ["POLITICS & MEME", 'Unexpected "&" (at character 10)'],
+    ['author:"My Senator', "Missing closing quote (at character 8)"],
+    ["author:", 'Missing a value after "author:" (at character 8)'],
+    [
+      "mood:happy",
+      'Unknown field "mood"; use author, keyword, platform or tone (at character 1)'
+    ],
+    [
+      "platform:myspace",
+      'Unknown platform "myspace"; use linkedin or twitter (at character 1)'
+    ],
+    ["tone:calm >= 0.5", 'Unknown tone "calm" (at character 1)'],
+    [
+      "tone:outrage",
+      "tone:outrage needs a comparison, e.g. tone:outrage >= 0.6 (at character 1)"
+    ],
+    [
+      "MEME AND ai-generated",
+      "ai-generated needs a comparison, e.g. ai-generated >= 0.8 (at character 10)"
+    ],
+    ["MEME >=", 'Expected a score after ">=" (at character 8)'],
+    ["MEME >= POLITICS", 'Expected a score after ">=" (at character 9)'],
+    ["MEME > 2", "Scores are between 0 and 1 (at character 8)"]
+  ])("reports %j as %j", (source, message) => {
+    expect(validateRuleExpression(source)).toBe(message)
+  })
+})
+
+describe("evaluateRuleExpression", () => {
+  it("matches a category at its block threshold", () => {
+    expect(matches("PROMOTIONAL")).toBe(true)
+    expect(matches("POLITICS")).toBe(false)
+  })
+
+  it("uses a category's own threshold", () => {
+    const thresholds = {
+      ...DEFAULT_THRESHOLDS,
+      categories: { POLITICS: 0.3 }
+    }
+    expect(matches("POLITICS", { thresholds })).toBe(true)
+  })
+
+  it("never matches an unknown category", () => {
+    expect(matches("UNKNOWN")).toBe(false)
+    expect(matches("NOT UNKNOWN")).toBe(true)
+    expect(matches("UNKNOWN < 0.1")).toBe(true)
+  })
+
+  it("combines conditions", () => {
+    expect(matches("POLITICS OR PROMOTIONAL AND MEME")).toBe(false)
+    expect(matches("(POLITICS OR PROMOTIONAL) AND NOT MEME")).toBe(true)
+    expect(matches("NOT NOT PROMOTIONAL")).toBe(true)
+  })
+
+  it("matches part of the author name, ignoring case", () => {
+    expect(matches("author:jane")).toBe(true)
+    expect(matches("author:john")).toBe(false)
+    expect(matches("author:jane", { authorName: undefined })).toBe(false)
+  })
+
+  it("matches keywords as whole words or phrases, ignoring case", () => {
+    expect(matches("keyword:ai")).toBe(true)
+    expect(matches('keyword:"open to work"')).toBe(true)
+    expect(matches("keyword:start")).toBe(false)
+    expect(matches("keyword:me")).toBe(true)
+  })
+
+  it("matches the platform", () => {
+    expect(matches("platform:linkedin")).toBe(true)
+    expect(matches("platform:twitter")).toBe(false)
+    expect(matches("platform:x", { platform: "twitter" })).toBe(true)
+  })
+
+  it.each([
+    [">", 0.8, false],
+    [">", 0.7, true],
+    [">=", 0.8, true],
+    [">=", 0.9, false],
+    ["<", 0.9, true],
+    ["<", 0.8, false],
+    ["<=", 0.8, true],
+    ["<=", 0.7, false],
+    ["=", 0.8, true],
+    ["=", 0.5, false]
+  ])("compares PROMOTIONAL %s %d as %s", (operator, value, expected) => {
+    expect(matches(`PROMOTIONAL ${operator} ${value}`)).toBe(expected)
+  })
+
+  it("compares tone and AI-generated scores", () => {
+    expect(matches("tone:outrage >= 0.7")).toBe(true)
+    expect(matches("tone:toxicity > 0.5")).toBe(false)
+    expect(matches("ai-generated >= 0.8")).toBe(true)
+  })
+
+  it("scores results without tone or AI-generated scores as 0", () => {
+    const result = { categories: ["MEME"], confidence: 0.6 }
+    expect(matches("tone:negativity = 0", { result })).toBe(true)
+    expect(matches("ai-generated > 0", { result })).toBe(false)
+    expect(matches("MEME", { result })).toBe(true)
+  })
+})
+
+describe("getExpressionCategories", () => {
+  it("lists the categories an expression mentions", () => {
+    expect(
+      getExpressionCategories(
+        parseRuleExpression(
+          'POLITICS AND NOT "self promo" OR MEME > 0.5 OR tone:outrage > 0.5'
+        )
+      )
+    ).toEqual(["POLITICS", "SELF PROMO", "MEME"])
+  })
+})
@@ -0,0 +1,537 @@
+import {
+  getCategoryScore,
+  type BlockThresholds,
+  type ScoredCategories
+} from "./thresholds"
+import { isToneDimension, type ToneDimension } from "./tone"
+
+/**
+ * A parsed rule expression, e.g.
+ * `POLITICS AND NOT author:"My Senator"` or `tone:OUTRAGE >= 0.6`.
+ */
+export type RuleExpression =
+  | { type: "and"; left: RuleExpression; right: RuleExpression }
+  | { type: "or"; left: RuleExpression; right: RuleExpression }
+  | { type: "not"; operand: RuleExpression }
+  // The post is in the category, at its block threshold
+  | { type: "category"; category: string }
+  // A substring of the author name, ignoring case
+  | { type: "author"; value: string }
+  // A whole word or phrase in the post text, ignoring case
+  | { type: "keyword"; value: string }
+  | { type: "platform"; platform: RulePlatform }
+  | {
+      type: "score"
+      target: ScoreTarget
+      operator: ComparisonOperator
+      value: number
+    }
+
+export type RulePlatform = "linkedin" | "twitter"
+
+export type ComparisonOperator = ">" | ">=" | "<" | "<=" | "="
+
+type ScoreTarget =
+  | { kind: "category"; category: string }
+  | { kind: "tone"; dimension: ToneDimension }
+  | { kind: "ai-generated" }
+
+/**
+ * What a rule is evaluated against.
+ */
+export interface RuleContext {
+  text: string
+  authorName?: string
+  platform: RulePlatform
+  result: ScoredCategories
+  thresholds: BlockThresholds
+}
+
+/**
+ * Thrown when a rule expression cannot be parsed.
+ */
+export class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    // Offset in the expression where the problem was found
+    public readonly position: number
+  ) {
+    super(`${message} (at character ${position + 1})`)
+    this.name = "RuleSyntaxError"
+  }
+}
+
+// Written as "ai-generated >= 0.8"
+const AI_GENERATED_TARGET = "AI-GENERATED"
+
+const PLATFORM_ALIASES: Record<string, RulePlatform> = {
+  linkedin: "linkedin",
+  twitter: "twitter",
+  x: "twitter"
+}
+
+type Token =
+  | { kind: "(" | ")"; position: number }
+  | { kind: "and" | "or" | "not"; position: number }
+  | { kind: "word"; value: string; position: number }
+  | { kind: "string"; value: string; position: number }
+  | { kind: "field"; name: string; value: string; position: number }
+  | { kind: "operator"; value: ComparisonOperator; position: number }
+  | { kind: "number"; value: number; position: number }
+
+const WORD_PATTERN = /[A-Za-z_][\w-]*/y
+const NUMBER_PATTERN = /\d*\.?\d+/y
+const OPERATOR_PATTERN = />=|<=|>|<|=/y
+
+/**
+ * Reads a double-quoted string.
+ * @param source The expression
+ * @param start The offset of the opening quote
+ * @returns The unquoted value and the offset after the closing quote
+ */
+function readString(
+  source: string,
+  start: number
+): { value: string; end: number } {
+  const end = source.indexOf('"', start + 1)
+  if (end === -1) {
+    throw new RuleSyntaxError("Missing closing quote", start)
+  }
+  return { value: source.slice(start + 1, end), end: end + 1 }
+}
+
+/**
+ * Reads a token matching a sticky pattern at an offset.
+ * @param pattern The sticky pattern
+ * @param source The expression
+ * @param position The offset to read at
+ * @returns The matched text, or null
+ */
+function readPattern(
+  pattern: RegExp,
+  source: string,
+  position: number
+): string | null {
+  pattern.lastIndex = position
+  return pattern.exec(source)?.[0] ?? null
+}
+
+/**
+ * Splits an expression into tokens.
+ * @param source The expression
+ * @returns The tokens
+ * @throws RuleSyntaxError on characters that start no token
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  while (position < source.length) {
+    const char = source[position]
+
+    if (/\s/.test(char)) {
+      position++
+      continue
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char, position })
+      position++
+      continue
+    }
+    if (char === '"') {
+      const { value, end } = readString(source, position)
+      tokens.push({ kind: "string", value, position })
+      position = end
+      continue
+    }
+
+    const operator = readPattern(OPERATOR_PATTERN, source, position)
+    if (operator) {
+      tokens.push({
+        kind: "operator",
+        value: operator as ComparisonOperator,
+        position
+      })
+      position += operator.length
+      continue
+    }
+
+    const number = readPattern(NUMBER_PATTERN, source, position)
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number), position })
+      position += number.length
+      continue
+    }
+
+    const word = readPattern(WORD_PATTERN, source, position)
+    if (!word) {
+      throw new RuleSyntaxError(`Unexpected "${char}"`, position)
+    }
+    const start = position
+    position += word.length
+
+    // A field such as author:"My Senator"
+    if (source[position] === ":") {
+      position++
+      let value: string
+      if (source[position] === '"') {
+        const string = readString(source, position)
+        value = string.value
+        position = string.end
+      } else {
+        value = readPattern(WORD_PATTERN, source, position) ?? ""
+        position += value.length
+      }
+      if (!value) {
+        throw new RuleSyntaxError(`Missing a value after "${word}:"`, position)
+      }
+      tokens.push({
+        kind: "field",
+        name: word.toLowerCase(),
+        value,
+        position: start
+      })
+      continue
+    }
+
+    const keyword = word.toLowerCase()
+    if (keyword === "and" || keyword === "or" || keyword === "not") {
+      tokens.push({ kind: keyword, position: start })
+    } else {
+      tokens.push({ kind: "word", value: word, position: start })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Names a token for error messages.
+ * @param token The token
+ * @returns How the token appears in the expression
+ */
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case "operator":
+    case "number":
+      return `"${token.value}"`
+    case "word":
+    case "string":
+      return `"${token.value}"`
+    case "field":
+      return `"${token.name}:${token.value}"`
+    case "and":
+    case "or":
+    case "not":
+      return token.kind.toUpperCase()
+    default:
+      return `"${token.kind}"`
+  }
+}
+
+/**
+ * Recursive descent over the tokens, with NOT binding tighter than AND and
+ * AND tighter than OR.
+ */
+class Parser {
+  private index = 0
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly length: number
+  ) {}
+
+  parse(): RuleExpression {
+    if (this.tokens.length === 0) {
+      throw new RuleSyntaxError("The rule is empty", 0)
+    }
+    const expression = this.parseOr()
+    const extra = this.peek()
+    if (extra) {
+      throw new RuleSyntaxError(
+        extra.kind === ")"
+          ? 'Unexpected ")"'
+          : "Expected AND or OR between conditions",
+        extra.position
+      )
+    }
+    return expression
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++]
+  }
+
+  private parseOr(): RuleExpression {
+    let left = this.parseAnd()
+    while (this.peek()?.kind === "or") {
+      this.next()
+      left = { type: "or", left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): RuleExpression {
+    let left = this.parseNot()
+    while (this.peek()?.kind === "and") {
+      this.next()
+      left = { type: "and", left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): RuleExpression {
+    if (this.peek()?.kind === "not") {
+      this.next()
+      return { type: "not", operand: this.parseNot() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): RuleExpression {
+    const token = this.next()
+    if (!token) {
+      throw new RuleSyntaxError(
+        "Expected a condition at the end of the rule",
+        this.length
+      )
+    }
+
+    switch (token.kind) {
+      case "(": {
+        const expression = this.parseOr()
+        if (this.next()?.kind !== ")") {
+          throw new RuleSyntaxError('Missing closing ")"', token.position)
+        }
+        return expression
+      }
+      case "word":
+      case "string": {
+        const name = token.value.trim().toUpperCase()
+        if (!name) {
+          throw new RuleSyntaxError("Empty category name", token.position)
+        }
+        const target: ScoreTarget =
+          name === AI_GENERATED_TARGET && token.kind === "word"
+            ? { kind: "ai-generated" }
+            : { kind: "category", category: name }
+        if (this.peek()?.kind === "operator") {
+          return this.parseComparison(target)
+        }
+        if (target.kind === "ai-generated") {
+          throw new RuleSyntaxError(
+            "ai-generated needs a comparison, e.g. ai-generated >= 0.8",
+            token.position
+          )
+        }
+        return { type: "category", category: name }
+      }
+      case "field":
+        return this.parseField(token)
+      default:
+        throw new RuleSyntaxError(
+          `Expected a condition, found ${describeToken(token)}`,
+          token.position
+        )
+    }
+  }
+
+  private parseField(token: Extract<Token, { kind: "field" }>): RuleExpression {
+    switch (token.name) {
+      case "author":
+        return { type: "author", value: token.value }
+      case "keyword":
+        return { type: "keyword", value: token.value }
+      case "platform": {
+        const platform = PLATFORM_ALIASES[token.value.toLowerCase()]
+        if (!platform) {
+          throw new RuleSyntaxError(
+            `Unknown platform "${token.value}"; use linkedin or twitter`,
+            token.position
+          )
+        }
+        return { type: "platform", platform }
+      }
+      case "tone": {
+        const dimension = token.value.toUpperCase().replace(/-/g, "_")
+        if (!isToneDimension(dimension)) {
+          throw new RuleSyntaxError(
+            `Unknown tone "${token.value}"`,
+            token.position
+          )
+        }
+        if (this.peek()?.kind !== "operator") {
+          throw new RuleSyntaxError(
+            `tone:${token.value} needs a comparison, e.g. tone:${token.value} >= 0.6`,
+            token.position
+          )
+        }
+        return this.parseComparison({ kind: "tone", dimension })
+      }
+      default:
+        throw new RuleSyntaxError(
+          `Unknown field "${token.name}"; use author, keyword, platform or tone`,
+          token.position
+        )
+    }
+  }
+
+  private parseComparison(target: ScoreTarget): RuleExpression {
+    const operator = this.next() as Extract<Token, { kind: "operator" }>
+    const value = this.next()
+    if (value?.kind !== "number") {
+      throw new RuleSyntaxError(
+        `Expected a score after "${operator.value}"`,
+        value?.position ?? this.length
+      )
+    }
+    if (value.value > 1) {
+      throw new RuleSyntaxError("Scores are between 0 and 1", value.position)
+    }
+    return {
+      type: "score",
+      target,
+      operator: operator.value,
+      value: value.value
+    }
+  }
+}
+
+/**
+ * Parses a rule expression.
+ * @param source The expression, e.g. `PROMOTIONAL AND platform:linkedin`
+ * @returns The parsed expression
+ * @throws RuleSyntaxError when the expression is invalid
+ */
+export function parseRuleExpression(source: string): RuleExpression {
+  return new Parser(tokenize(source), source.length).parse()
+}
+
+/**
+ * Checks a rule expression before it is saved.
+ * @param source The expression
+ * @returns An error message, or null if the expression parses
+ */
+export function validateRuleExpression(source: string): string | null {
+  try {
+    parseRuleExpression(source)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Lists the categories an expression mentions, so the AI can be asked to
+ * score them.
+ * @param expression The parsed expression
+ * @returns Upper-case category names
+ */
+export function getExpressionCategories(expression: RuleExpression): string[] {
+  switch (expression.type) {
+    case "and":
+    case "or":
+      return [
+        ...getExpressionCategories(expression.left),
+        ...getExpressionCategories(expression.right)
+      ]
+    case "not":
+      return getExpressionCategories(expression.operand)
+    case "category":
+      return [expression.category]
+    case "score":
+      return expression.target.kind === "category"
+        ? [expression.target.category]
+        : []
+    default:
+      return []
+  }
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Compares a score with a rule's value.
+ * @param score The post's score
+ * @param operator The comparison
+ * @param value The rule's value
+ * @returns Whether the comparison holds
+ */
+function compare(
+  score: number,
+  operator: ComparisonOperator,
+  value: number
+): boolean {
+  switch (operator) {
+    case ">":
+      return score > value
+    case ">=":
+      return score >= value
+    case "<":
+      return score < value
+    case "<=":
+      return score <= value
+    case "=":
+      return score === value
+  }
+}
+
+/**
+ * Evaluates a parsed expression against a post.
+ * @param expression The parsed expression
+ * @param context The post and its categorization
+ * @returns Whether the post matches
+ */
+export function evaluateRuleExpression(
+  expression: RuleExpression,
+  context: RuleContext
+): boolean {
+  switch (expression.type) {
+    case "and":
+      return (
+        evaluateRuleExpression(expression.left, context) &&
+        evaluateRuleExpression(expression.right, context)
+      )
+    case "or":
+      return (
+        evaluateRuleExpression(expression.left, context) ||
+        evaluateRuleExpression(expression.right, context)
+      )
+    case "not":
+      return !evaluateRuleExpression(expression.operand, context)
+    case "category": {
+      const { result, thresholds } = context
+      const block =
+        thresholds.categories[expression.category] ?? thresholds.block
+      return getCategoryScore(result, expression.category) >= block
+    }
+    case "author":
+      return (context.authorName ?? "")
+        .toLowerCase()
+        .includes(expression.value.toLowerCase())
+    case "keyword":
+      return new RegExp(
+        `(^|\\W)${escapeRegExp(expression.value)}(\\W|$)`,
+        "i"
+      ).test(context.text)
+    case "platform":
+      return context.platform === expression.platform
+    case "score": {
+      const { target } = expression
+      const { result } = context
+      // Results cached before tone or AI-generated scoring have none
+      const score =
+        target.kind === "category"
+          ? getCategoryScore(result, target.category)
+          : target.kind === "tone"
+            ? result.tone?.[target.dimension] ?? 0
+            : result.aiGenerated?.score ?? 0
+      return compare(score, expression.operator, expression.value)
+    }
+  }
+}
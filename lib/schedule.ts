@@ -0,0 +1,190 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * A weekly time window during which a profile is active, e.g. 09:00 to
+ * 17:00 on weekdays. A window whose end is before its start runs past
+ * midnight into the next day.
+ */
+export interface ScheduleSlot {
+  id: string
+  profileId: string
+  // Days of the week the window starts on, 0 being Sunday
+  days: number[]
+  // Local times as "HH:MM"
+  start: string
+  end: string
+}
+
+export interface Schedule {
+  enabled: boolean
+  slots: ScheduleSlot[]
+  // The profile used outside every window, or null to leave settings alone
+  defaultProfileId: string | null
+}
+
+/**
+ * Where the schedule stands, written by the background scheduler for the
+ * popup to show.
+ */
+export interface ScheduleStatus {
+  profileId: string | null
+  // When the scheduled profile next changes, as a timestamp
+  nextChangeAt: number | null
+  nextProfileId: string | null
+}
+
+export const SCHEDULE_STORAGE_KEY = "schedule"
+
+// Kept in local storage, since each device applies the schedule in its own
+// time zone
+export const SCHEDULE_STATUS_STORAGE_KEY = "schedule-status"
+
+export const DEFAULT_SCHEDULE: Schedule = {
+  enabled: false,
+  slots: [],
+  defaultProfileId: null
+}
+
+export const WEEKDAYS: { day: number; label: string }[] = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" }
+]
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+const isTime = (value: unknown): value is string =>
+  typeof value === "string" && TIME_PATTERN.test(value)
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Reads the schedule, dropping malformed windows.
+ * @param storage The storage instance to read from
+ * @returns The schedule
+ */
+export async function loadSchedule(storage: Storage): Promise<Schedule> {
+  const stored = await storage.get<Schedule>(SCHEDULE_STORAGE_KEY)
+  if (!stored || typeof stored !== "object") {
+    return DEFAULT_SCHEDULE
+  }
+
+  const slots = Array.isArray(stored.slots) ? stored.slots : []
+  return {
+    enabled: stored.enabled === true,
+    slots: slots
+      .filter(
+        (slot) =>
+          slot &&
+          typeof slot.id === "string" &&
+          typeof slot.profileId === "string" &&
+          isTime(slot.start) &&
+          isTime(slot.end)
+      )
+      .map((slot) => ({
+        id: slot.id,
+        profileId: slot.profileId,
+        days: Array.isArray(slot.days)
+          ? slot.days.filter(
+              (day) => Number.isInteger(day) && day >= 0 && day <= 6
+            )
+          : [],
+        start: slot.start,
+        end: slot.end
+      })),
+    defaultProfileId:
+      typeof stored.defaultProfileId === "string"
+        ? stored.defaultProfileId
+        : null
+  }
+}
+
+/**
+ * Checks whether a window covers a moment.
+ * @param slot The window
+ * @param date The moment, in local time
+ * @returns Whether the window is open
+ */
+function isSlotActive(slot: ScheduleSlot, date: Date): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes()
+  const day = date.getDay()
+  const previousDay = (day + 6) % 7
+  const start = toMinutes(slot.start)
+  const end = toMinutes(slot.end)
+
+  if (start === end) {
+    return slot.days.includes(day)
+  }
+  if (start < end) {
+    return slot.days.includes(day) && minutes >= start && minutes < end
+  }
+  // Past midnight: the evening of a listed day or the morning after
+  return (
+    (slot.days.includes(day) && minutes >= start) ||
+    (slot.days.includes(previousDay) && minutes < end)
+  )
+}
+
+/**
+ * Picks the profile the schedule wants at a moment. When windows overlap,
+ * the first one listed wins.
+ * @param schedule The schedule
+ * @param date The moment, in local time
+ * @returns The profile id, or null to leave settings alone
+ */
+export function getScheduledProfileId(
+  schedule: Schedule,
+  date: Date
+): string | null {
+  const slot = schedule.slots.find((candidate) => isSlotActive(candidate, date))
+  return slot?.profileId ?? schedule.defaultProfileId
+}
+
+/**
+ * Finds when the scheduled profile next changes, looking a week ahead.
+ * @param schedule The schedule
+ * @param date The moment to look from, in local time
+ * @returns When the change happens and the profile it switches to, or null
+ * if the profile never changes
+ */
+export function getNextScheduleChange(
+  schedule: Schedule,
+  date: Date
+): { at: number; profileId: string | null } | null {
+  const current = getScheduledProfileId(schedule, date)
+
+  // The profile can only change where a window starts or ends
+  const boundaries = new Set<number>()
+  for (let offset = 0; offset <= 8; offset++) {
+    for (const slot of schedule.slots) {
+      for (const time of [slot.start, slot.end]) {
+        const minutes = toMinutes(time)
+        const boundary = new Date(
+          date.getFullYear(),
+          date.getMonth(),
+          date.getDate() + offset,
+          Math.floor(minutes / 60),
+          minutes % 60
+        ).getTime()
+        if (boundary > date.getTime()) {
+          boundaries.add(boundary)
+        }
+      }
+    }
+  }
+
+  for (const at of [...boundaries].sort((a, b) => a - b)) {
+    const profileId = getScheduledProfileId(schedule, new Date(at))
+    if (profileId !== current) {
+      return { at, profileId }
+    }
+  }
+  return null
+}
@@ -0,0 +1,192 @@
+import type { Storage } from "@plasmohq/storage"
+
+import type { FilterMode } from "./filter-mode"
+import { isToneDimension, type ToneDimension, type ToneScores } from "./tone"
+
+/**
+ * Score thresholds that decide what happens to a post matching an exclude
+ * category. Scores at or above `block` cover the post; scores between
+ * `filter` and the block threshold only mark it as filtered. An include
+ * category matches at its block threshold too. Tone and AI-generated
+ * limits apply to every post, whatever its categories and the filter mode.
+ */
+export interface BlockThresholds {
+  block: number
+  filter: number
+  // Block threshold overrides keyed by upper-case category
+  categories: Record<string, number>
+  // Posts scoring at or above a limit are covered; unset dimensions are off
+  tone: Partial<Record<ToneDimension, number>>
+  // Likely AI-generated posts at or above this are covered; null is off
+  aiGenerated: number | null
+}
+
+/**
+ * Categorization fields the threshold check needs.
+ */
+export interface ScoredCategories {
+  categories: string[]
+  confidence: number
+  scores?: Record<string, number>
+  tone?: ToneScores
+  aiGenerated?: { score: number }
+  // Set when the AI provider failed or was skipped
+  error?: unknown
+}
+
+export interface ThresholdDecision {
+  shouldBlock: boolean
+  // Exclude categories at or above their block threshold
+  matchedCategories: string[]
+  // Exclude categories between the filter and block thresholds
+  filteredCategories: string[]
+  // Tone dimensions at or above their limit
+  matchedTones: ToneDimension[]
+  // Whether the likely AI-generated score reached its limit
+  matchedAiGenerated: boolean
+  // Whether the post was hidden for matching no include category
+  missedInclude: boolean
+}
+
+export const THRESHOLDS_STORAGE_KEY = "block-thresholds"
+
+export const DEFAULT_THRESHOLDS: BlockThresholds = {
+  block: 0.5,
+  filter: 0.3,
+  categories: {},
+  tone: {},
+  aiGenerated: null
+}
+
+const clampScore = (value: unknown, fallback: number): number =>
+  typeof value === "number" && !Number.isNaN(value)
+    ? Math.min(Math.max(value, 0), 1)
+    : fallback
+
+/**
+ * Reads the thresholds, falling back to the defaults for anything unset.
+ * @param storage The storage instance to read from
+ * @returns The thresholds
+ */
+export async function loadThresholds(
+  storage: Storage
+): Promise<BlockThresholds> {
+  const stored = await storage.get<BlockThresholds>(THRESHOLDS_STORAGE_KEY)
+
+  return {
+    block: clampScore(stored?.block, DEFAULT_THRESHOLDS.block),
+    filter: clampScore(stored?.filter, DEFAULT_THRESHOLDS.filter),
+    categories: Object.fromEntries(
+      Object.entries(stored?.categories ?? {}).map(([category, value]) => [
+        category.toUpperCase(),
+        clampScore(value, DEFAULT_THRESHOLDS.block)
+      ])
+    ),
+    tone: Object.fromEntries(
+      Object.entries(stored?.tone ?? {})
+        .filter(([dimension]) => isToneDimension(dimension))
+        .map(([dimension, value]) => [dimension, clampScore(value, 1)])
+    ),
+    aiGenerated:
+      stored?.aiGenerated === null || stored?.aiGenerated === undefined
+        ? null
+        : clampScore(stored.aiGenerated, 1)
+  }
+}
+
+/**
+ * Looks up the score of a category, falling back to the overall confidence
+ * for results that predate per-category scores.
+ * @param result The categorization
+ * @param category The upper-case category
+ * @returns The score between 0 and 1
+ */
+export function getCategoryScore(
+  result: ScoredCategories,
+  category: string
+): number {
+  const score = result.scores?.[category]
+  if (typeof score === "number") {
+    return score
+  }
+
+  return result.categories.includes(category) ? result.confidence : 0
+}
+
+/**
+ * Decides whether a post is blocked, filtered or allowed. An empty include
+ * list hides nothing, and neither does a post the AI could not categorize,
+ * since missing an include category then proves nothing.
+ * @param result The categorization
+ * @param userCategories The user's include and exclude categories
+ * @param thresholds The thresholds to apply
+ * @param mode Which category lists decide what is hidden
+ * @returns Which categories blocked or filtered the post
+ */
+export function applyThresholds(
+  result: ScoredCategories,
+  userCategories: { include: string[]; exclude: string[] },
+  thresholds: BlockThresholds,
+  mode: FilterMode
+): ThresholdDecision {
+  const matchedCategories: string[] = []
+  const filteredCategories: string[] = []
+  const blockThreshold = (category: string) =>
+    thresholds.categories[category] ?? thresholds.block
+
+  const includeCategories =
+    mode === "exclude"
+      ? []
+      : userCategories.include.map((include) => include.toUpperCase())
+  const matchesInclude = includeCategories.some(
+    (category) => getCategoryScore(result, category) >= blockThreshold(category)
+  )
+  const categorized = !result.error && !result.categories.includes("ERROR")
+  const missedInclude =
+    mode === "include" &&
+    includeCategories.length > 0 &&
+    categorized &&
+    !matchesInclude
+
+  // In mixed mode an include match overrides every exclude category
+  const excludeCategories =
+    mode === "include" || (mode === "mixed" && matchesInclude)
+      ? []
+      : userCategories.exclude
+
+  for (const exclude of excludeCategories) {
+    const category = exclude.toUpperCase()
+    const score = getCategoryScore(result, category)
+    const block = blockThreshold(category)
+
+    if (score >= block) {
+      matchedCategories.push(category)
+    } else if (score >= Math.min(thresholds.filter, block) && score > 0) {
+      filteredCategories.push(category)
+    }
+  }
+
+  // Results cached before tone scoring existed have none
+  const matchedTones = (
+    Object.entries(thresholds.tone) as [ToneDimension, number][]
+  )
+    .filter(([dimension, limit]) => (result.tone?.[dimension] ?? 0) >= limit)
+    .map(([dimension]) => dimension)
+
+  const matchedAiGenerated =
+    thresholds.aiGenerated !== null &&
+    (result.aiGenerated?.score ?? 0) >= thresholds.aiGenerated
+
+  return {
+    shouldBlock:
+      matchedCategories.length > 0 ||
+      matchedTones.length > 0 ||
+      matchedAiGenerated ||
+      missedInclude,
+    matchedCategories,
+    filteredCategories,
+    matchedTones,
+    matchedAiGenerated,
+    missedInclude
+  }
+}
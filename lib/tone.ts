@@ -0,0 +1,56 @@
+/**
+ * Tone dimensions scored for every post, independent of its topic.
+ */
+export const TONE_DIMENSIONS = [
+  {
+    id: "OUTRAGE",
+    label: "Outrage / rage-bait",
+    description: "written to make readers angry or provoke a pile-on"
+  },
+  {
+    id: "TOXICITY",
+    label: "Toxicity",
+    description: "insults, harassment, slurs or contempt for people"
+  },
+  {
+    id: "NEGATIVITY",
+    label: "Negativity",
+    description: "overall gloomy, cynical or hostile tone"
+  },
+  {
+    id: "ENGAGEMENT_BAIT",
+    label: "Engagement bait",
+    description:
+      'asks for likes, reposts or comments ("agree?", "comment YES") rather than saying something'
+  }
+] as const
+
+export type ToneDimension = (typeof TONE_DIMENSIONS)[number]["id"]
+
+/**
+ * Scores between 0 and 1 keyed by tone dimension.
+ */
+export type ToneScores = Partial<Record<ToneDimension, number>>
+
+export const TONE_DIMENSION_IDS: ToneDimension[] = TONE_DIMENSIONS.map(
+  ({ id }) => id
+)
+
+/**
+ * Checks whether a string names a tone dimension.
+ * @param value The string to check
+ * @returns Whether it is a tone dimension
+ */
+export function isToneDimension(value: string): value is ToneDimension {
+  return (TONE_DIMENSION_IDS as string[]).includes(value)
+}
+
+/**
+ * Renders the tone dimensions as prompt lines.
+ * @returns One line per dimension
+ */
+export function formatToneDimensions(): string {
+  return TONE_DIMENSIONS.map(
+    ({ id, description }) => `- ${id}: ${description}`
+  ).join("\n")
+}
@@ -0,0 +1,139 @@
+import type { Storage } from "@plasmohq/storage"
+
+/**
+ * Token and cost totals for one model on one day.
+ */
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  // Estimated from MODEL_PRICING; 0 for models without a known price
+  cost: number
+}
+
+/**
+ * Totals keyed by local date (YYYY-MM-DD), then by "provider:model".
+ */
+export type UsageLog = Record<string, Record<string, UsageTotals>>
+
+// Kept in the local area because it is written after every request
+export const USAGE_LOG_STORAGE_KEY = "usage-log"
+export const MONTHLY_BUDGET_STORAGE_KEY = "monthly-budget"
+
+// Days of history kept in the usage log
+export const USAGE_RETENTION_DAYS = 90
+
+/**
+ * USD per million input and output tokens, matched by model name prefix.
+ * Longer prefixes are listed first so they win over shorter ones.
+ */
+export const MODEL_PRICING: {
+  prefix: string
+  input: number
+  output: number
+}[] = [
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+  { prefix: "gpt-4.1-nano", input: 0.1, output: 0.4 },
+  { prefix: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+  { prefix: "gpt-4.1", input: 2, output: 8 },
+  { prefix: "gpt-3.5-turbo", input: 0.5, output: 1.5 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+  { prefix: "claude-3-haiku", input: 0.25, output: 1.25 },
+  { prefix: "claude-3-5-sonnet", input: 3, output: 15 },
+  { prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-opus-4", input: 15, output: 75 }
+]
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cost: 0
+}
+
+/**
+ * Formats a date as the local YYYY-MM-DD key used by the usage log.
+ * @param date The date to format
+ * @returns The day key
+ */
+export function getDayKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Estimates what a request cost.
+ * @param model The model name reported by the provider
+ * @param inputTokens Prompt tokens
+ * @param outputTokens Completion tokens
+ * @returns The estimated cost in USD, or 0 for unknown models
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const pricing = MODEL_PRICING.find(({ prefix }) =>
+    model.toLowerCase().startsWith(prefix)
+  )
+  if (!pricing) {
+    return 0
+  }
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1e6
+}
+
+/**
+ * Adds up the totals of every model over a range of days.
+ * @param log The usage log
+ * @param dayPrefix Day keys to include, e.g. "2024-05" for a month
+ * @returns The combined totals
+ */
+export function sumUsage(log: UsageLog, dayPrefix: string): UsageTotals {
+  const total = { ...EMPTY_USAGE_TOTALS }
+
+  for (const [day, models] of Object.entries(log)) {
+    if (!day.startsWith(dayPrefix)) continue
+
+    for (const totals of Object.values(models)) {
+      total.requests += totals.requests
+      total.inputTokens += totals.inputTokens
+      total.outputTokens += totals.outputTokens
+      total.cost += totals.cost
+    }
+  }
+
+  return total
+}
+
+/**
+ * Reads the estimated spend of the current calendar month.
+ * @param log The usage log
+ * @returns The estimated cost in USD
+ */
+export function getMonthlyCost(log: UsageLog): number {
+  return sumUsage(log, getDayKey().slice(0, 7)).cost
+}
+
+/**
+ * Reads the usage log.
+ * @param storage A storage instance for the local area
+ * @returns The usage log, empty if nothing was recorded yet
+ */
+export async function loadUsageLog(storage: Storage): Promise<UsageLog> {
+  const stored = await storage.get<UsageLog>(USAGE_LOG_STORAGE_KEY)
+  return stored && typeof stored === "object" ? stored : {}
+}
+
+/**
+ * Reads the monthly budget.
+ * @param storage The storage instance to read from
+ * @returns The budget in USD, or 0 for no limit
+ */
+export async function loadMonthlyBudget(storage: Storage): Promise<number> {
+  const stored = Number(await storage.get(MONTHLY_BUDGET_STORAGE_KEY))
+  return Number.isFinite(stored) && stored > 0 ? stored : 0
+}
@@ -0,0 +1,44 @@
+import type { Storage } from "@plasmohq/storage"
+
+// Categories whose posts have their images sent to the AI provider
+export const VISION_CATEGORIES_STORAGE_KEY = "vision-categories"
+
+// Images sent per post; each one costs roughly as much as a long post
+export const MAX_IMAGES_PER_POST = 2
+
+/**
+ * A picture found in a post by the content script.
+ */
+export interface PostImage {
+  url: string
+  alt?: string
+}
+
+/**
+ * Reads the categories that opted in to image understanding.
+ * @param storage The storage instance to read from
+ * @returns Upper-case category names
+ */
+export async function loadVisionCategories(
+  storage: Storage
+): Promise<string[]> {
+  const stored = await storage.get<string[]>(VISION_CATEGORIES_STORAGE_KEY)
+  return Array.isArray(stored)
+    ? stored.map((category) => String(category).toUpperCase())
+    : []
+}
+
+/**
+ * Checks whether images should be sent for a category set.
+ * @param categories The user's include and exclude categories
+ * @param visionCategories The categories that opted in
+ * @returns Whether any of the categories opted in
+ */
+export function usesVision(
+  categories: string[],
+  visionCategories: string[]
+): boolean {
+  return categories.some((category) =>
+    visionCategories.includes(category.toUpperCase())
+  )
+}
@@ -3,50 +3,116 @@ import { useEffect, useState } from "react"
 
 import { Storage } from "@plasmohq/storage"
 
+import {
+  loadProviderSettings,
+  PROVIDER_IDS,
+  PROVIDER_OPTIONS,
+  saveProviderSettings,
+  type ProviderId,
+  type ProviderSettings
+} from "~lib/llm-settings"
+import { sendMessage } from "~lib/messages"
+
 import { Button } from "./components/ui/button"
 import { Input } from "./components/ui/input"
 import { Logo } from "./components/ui/logo"
+import { AuthorListsEditor } from "./options/author-lists-editor"
+import { CategoryDefinitionsEditor } from "./options/category-definitions-editor"
+import { FeedbackExamples } from "./options/feedback-examples"
+import { FilterRulesEditor } from "./options/filter-rules-editor"
+import { LocalRulesEditor } from "./options/local-rules-editor"
+import { MuteListEditor } from "./options/mute-list-editor"
+import { PromptTemplateEditor } from "./options/prompt-template-editor"
+import { ScheduleEditor } from "./options/schedule-editor"
+import { UsageSummary } from "./options/usage-summary"
+import { VisionSettings } from "./options/vision-settings"
 
 import "./style.css"
 
 const storage = new Storage()
 
 function OptionsPage() {
-  const [apiKey, setApiKey] = useState("")
+  const [settings, setSettings] = useState<ProviderSettings>({
+    provider: "openai",
+    apiKey: "",
+    model: PROVIDER_OPTIONS.openai.defaultModel,
+    baseUrl: PROVIDER_OPTIONS.openai.defaultBaseUrl
+  })
   const [saveStatus, setSaveStatus] = useState("")
   const [showKey, setShowKey] = useState(false)
+  const [cacheEntries, setCacheEntries] = useState<number | null>(null)
+
+  const providerOption = PROVIDER_OPTIONS[settings.provider]
 
   useEffect(() => {
-    // Load saved API key on component mount
-    const loadApiKey = async () => {
+    // Load saved provider settings on component mount
+    const loadSettings = async () => {
       try {
-        const savedKey = await storage.get("openai-api-key")
+        const savedSettings = await loadProviderSettings(storage)
         console.log(
-          "Loaded API key from storage:",
-          savedKey ? "Key exists" : "No key found"
+          "Loaded provider settings from storage:",
+          savedSettings.provider,
+          savedSettings.apiKey ? "Key exists" : "No key found"
         )
-        if (savedKey) {
-          setApiKey(savedKey)
-        }
+        setSettings(savedSettings)
       } catch (error) {
-        console.error("Error loading API key from storage:", error)
+        console.error("Error loading provider settings from storage:", error)
       }
     }
-    loadApiKey()
+    loadSettings()
+
+    // Load the number of cached categorizations
+    sendMessage("get-cache-stats", {})
+      .then(({ entries }) => setCacheEntries(entries))
+      .catch((error) => {
+        console.error("Error loading cache size:", error)
+      })
   }, [])
 
+  const handleProviderChange = async (provider: ProviderId) => {
+    try {
+      // Show what is already saved for the newly selected provider
+      setSettings(await loadProviderSettings(storage, provider))
+      setSaveStatus("")
+    } catch (error) {
+      console.error("Error loading provider settings from storage:", error)
+    }
+  }
+
   const handleSave = async () => {
     try {
-      await storage.set("openai-api-key", apiKey)
-      console.log("API key saved successfully")
+      // Servers outside the manifest host permissions need a runtime grant
+      if (settings.provider === "openai-compatible") {
+        const origin = `${new URL(settings.baseUrl).origin}/*`
+        const granted = await chrome.permissions.request({ origins: [origin] })
+        if (!granted) {
+          console.error("Host permission denied for", origin)
+          setSaveStatus("error")
+          return
+        }
+      }
+
+      await saveProviderSettings(storage, settings)
+      console.log("Provider settings saved successfully")
       setSaveStatus("success")
       setTimeout(() => setSaveStatus(""), 3000)
     } catch (error) {
-      console.error("Error saving API key:", error)
+      console.error("Error saving provider settings:", error)
       setSaveStatus("error")
     }
   }
 
+  const handleClearCache = async () => {
+    try {
+      const response = await sendMessage("clear-categorization-cache", {})
+      if (response?.success) {
+        setCacheEntries(0)
+      }
+    } catch (error) {
+      console.error("Error clearing categorization cache:", error)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-background py-12">
       <div className="max-w-2xl mx-auto px-4">
@@ -59,28 +125,96 @@ function OptionsPage() {
             </h1>
           </div>
           <p className="text-muted-foreground max-w-md mx-auto">
-            Configure your OpenAI API key to enable AI-powered post filtering on
-            LinkedIn.
+            Choose the AI provider used to filter posts on LinkedIn and X. Use a
+            local OpenAI-compatible server to keep feed content on your machine.
           </p>
         </div>
 
         {/* Main Content */}
         <div className="bg-card rounded-2xl shadow-lg p-8">
           <div className="space-y-8">
+            {/* Provider Section */}
+            <div>
+              <label
+                className="block text-sm font-medium text-foreground mb-2"
+                htmlFor="provider">
+                AI Provider
+              </label>
+              <select
+                id="provider"
+                className="flex h-10 w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                value={settings.provider}
+                onChange={(e) =>
+                  handleProviderChange(e.target.value as ProviderId)
+                }>
+                {PROVIDER_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {PROVIDER_OPTIONS[id].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Base URL Section */}
+            {settings.provider === "openai-compatible" && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-foreground mb-2"
+                  htmlFor="baseUrl">
+                  Base URL
+                </label>
+                <Input
+                  id="baseUrl"
+                  placeholder={providerOption.defaultBaseUrl}
+                  value={settings.baseUrl}
+                  onChange={(e) =>
+                    setSettings({ ...settings, baseUrl: e.target.value })
+                  }
+                />
+                <p className="mt-2 text-sm text-muted-foreground">
+                  The server must expose an OpenAI-style{" "}
+                  <code>/chat/completions</code> endpoint, e.g. Ollama at{" "}
+                  <code>http://localhost:11434/v1</code> or llama.cpp at{" "}
+                  <code>http://localhost:8080/v1</code>.
+                </p>
+              </div>
+            )}
+
+            {/* Model Section */}
+            <div>
+              <label
+                className="block text-sm font-medium text-foreground mb-2"
+                htmlFor="model">
+                Model
+              </label>
+              <Input
+                id="model"
+                placeholder={providerOption.defaultModel}
+                value={settings.model}
+                onChange={(e) =>
+                  setSettings({ ...settings, model: e.target.value })
+                }
+              />
+            </div>
+
             {/* API Key Section */}
             <div>
               <label
                 className="block text-sm font-medium text-foreground mb-2"
                 htmlFor="apiKey">
-                OpenAI API Key
+                {providerOption.requiresApiKey
+                  ? `${providerOption.label} API Key`
+                  : "API Key (optional)"}
               </label>
               <div className="mt-1 relative rounded-md shadow-sm">
                 <Input
                   type={showKey ? "text" : "password"}
                   id="apiKey"
-                  placeholder="sk-..."
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
+                  placeholder={providerOption.keyPlaceholder}
+                  value={settings.apiKey}
+                  onChange={(e) =>
+                    setSettings({ ...settings, apiKey: e.target.value })
+                  }
                 />
                 <button
                   type="button"
@@ -102,7 +236,7 @@ function OptionsPage() {
             {/* Save Button */}
             <div className="flex items-center justify-between">
               <Button onClick={handleSave} variant="default">
-                Save API Key
+                Save Settings
               </Button>
 
               {/* Save Status */}
@@ -116,12 +250,12 @@ function OptionsPage() {
                   {saveStatus === "success" ? (
                     <>
                       <CheckCircle2 className="h-5 w-5" />
-                      <span>API key saved successfully!</span>
+                      <span>Settings saved successfully!</span>
                     </>
                   ) : (
                     <>
                       <XCircle className="h-5 w-5" />
-                      <span>Error saving API key</span>
+                      <span>Error saving settings</span>
                     </>
                   )}
                 </div>
@@ -130,19 +264,93 @@ function OptionsPage() {
           </div>
         </div>
 
-        {/* Help Text */}
-        <div className="mt-8 text-center text-sm text-muted-foreground">
-          <p>
-            Need an OpenAI API key?{" "}
-            <a
-              href="https://platform.openai.com/account/api-keys"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-primary hover:text-primary/90">
-              Get one here
-            </a>
-          </p>
+        {/* Category Definitions */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <CategoryDefinitionsEditor />
+        </div>
+
+        {/* Image Understanding */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <VisionSettings />
+        </div>
+
+        {/* Prompt Template */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <PromptTemplateEditor />
+        </div>
+
+        {/* Local Rules */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <LocalRulesEditor />
+        </div>
+
+        {/* Author Lists */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <AuthorListsEditor />
+        </div>
+
+        {/* Mute List */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <MuteListEditor />
+        </div>
+
+        {/* Profiles and Schedule */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <ScheduleEditor />
         </div>
+
+        {/* Filter Rules */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <FilterRulesEditor />
+        </div>
+
+        {/* Corrections */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <FeedbackExamples />
+        </div>
+
+        {/* Usage */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <UsageSummary />
+        </div>
+
+        {/* Cache */}
+        <div className="bg-card rounded-2xl shadow-lg p-8 mt-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="block text-sm font-medium text-foreground">
+                Categorization Cache
+              </span>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {cacheEntries === null
+                  ? "Posts you have already seen are not re-sent to the AI provider."
+                  : `${cacheEntries} post${cacheEntries === 1 ? "" : "s"} cached. Cached posts are not re-sent to the AI provider.`}
+              </p>
+            </div>
+            <Button
+              onClick={handleClearCache}
+              variant="outline"
+              disabled={cacheEntries === 0}>
+              Clear Cache
+            </Button>
+          </div>
+        </div>
+
+        {/* Help Text */}
+        {providerOption.keyUrl && (
+          <div className="mt-8 text-center text-sm text-muted-foreground">
+            <p>
+              Need an API key from {providerOption.label}?{" "}
+              <a
+                href={providerOption.keyUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:text-primary/90">
+                Get one here
+              </a>
+            </p>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,131 @@
+import { CheckCircle2 } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  AUTHOR_LIST_PLATFORMS,
+  AUTHOR_LISTS_STORAGE_KEY,
+  EMPTY_AUTHOR_LISTS,
+  loadAuthorLists,
+  type AuthorListName,
+  type AuthorLists
+} from "~lib/author-lists"
+import type { RulePlatform } from "~lib/rule-expression"
+
+import { Button } from "../components/ui/button"
+
+const storage = new Storage()
+
+const LIST_FIELDS: { list: AuthorListName; label: string }[] = [
+  { list: "allow", label: "Always show" },
+  { list: "block", label: "Always hide" }
+]
+
+const toLines = (values: string[]): string => values.join("\n")
+const fromLines = (value: string): string[] => value.split("\n")
+
+/**
+ * Editor for the per-platform authors whose posts are always shown or
+ * always hidden without asking the AI.
+ */
+export function AuthorListsEditor() {
+  const [lists, setLists] = useState<AuthorLists>(EMPTY_AUTHOR_LISTS)
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    loadAuthorLists(storage)
+      .then(setLists)
+      .catch((error) => console.error("Error loading author lists:", error))
+  }, [])
+
+  const updateList = (
+    platform: RulePlatform,
+    list: AuthorListName,
+    value: string
+  ) => {
+    setLists({
+      ...lists,
+      [platform]: { ...lists[platform], [list]: fromLines(value) }
+    })
+    setSaveStatus("")
+  }
+
+  const handleSave = async () => {
+    try {
+      const clean = (values: string[]) =>
+        values.map((value) => value.trim()).filter(Boolean)
+      const cleanLists = Object.fromEntries(
+        Object.entries(lists).map(([platform, { allow, block }]) => [
+          platform,
+          { allow: clean(allow), block: clean(block) }
+        ])
+      ) as AuthorLists
+      await storage.set(AUTHOR_LISTS_STORAGE_KEY, cleanLists)
+      setLists(cleanLists)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving author lists:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Authors
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Posts by these authors are shown or hidden before any AI request. One
+          author per line: a display name, or an @username on X. Always show
+          wins when an author is on both lists.
+        </p>
+      </div>
+
+      {AUTHOR_LIST_PLATFORMS.map(({ id: platform, label: platformLabel }) => (
+        <div key={platform} className="space-y-2">
+          <span className="block text-sm font-medium text-foreground">
+            {platformLabel}
+          </span>
+          <div className="grid grid-cols-2 gap-4">
+            {LIST_FIELDS.map(({ list, label }) => (
+              <div key={list}>
+                <label
+                  className="block text-sm text-muted-foreground mb-2"
+                  htmlFor={`authors-${platform}-${list}`}>
+                  {label}
+                </label>
+                <textarea
+                  id={`authors-${platform}-${list}`}
+                  className="w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                  rows={4}
+                  placeholder={
+                    platform === "twitter" ? "@username" : "Jane Doe"
+                  }
+                  value={toLines(lists[platform][list])}
+                  onChange={(e) => updateList(platform, list, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button onClick={handleSave}>Save Authors</Button>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Authors saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving authors</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import { CheckCircle2 } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import { getAllCategories } from "~background/categorizer/prompt"
+import {
+  CATEGORY_DEFINITIONS_STORAGE_KEY,
+  DEFAULT_CATEGORY_DEFINITIONS,
+  EMPTY_CATEGORY_DEFINITION,
+  loadCategoryDefinitions,
+  normalizeCategoryDefinition,
+  type CategoryDefinitions
+} from "~lib/category-definitions"
+
+import { Button } from "../components/ui/button"
+
+const storage = new Storage()
+
+const textareaClassName =
+  "w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+
+/**
+ * Editor for the description and example phrases of each category, which
+ * tell the AI provider what a custom category like "HUSTLE" means.
+ */
+export function CategoryDefinitionsEditor() {
+  const [definitions, setDefinitions] = useState<CategoryDefinitions>({})
+  const [categories, setCategories] = useState<string[]>([])
+  const [selected, setSelected] = useState<string>("")
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    const loadDefinitions = async () => {
+      try {
+        const savedDefinitions = await loadCategoryDefinitions(storage)
+        const userCategories = await storage.get<{
+          include: string[]
+          exclude: string[]
+        }>("user-categories")
+        const allCategories = getAllCategories(
+          userCategories ?? { include: [], exclude: [] }
+        )
+
+        setDefinitions(savedDefinitions)
+        setCategories(allCategories)
+        setSelected(allCategories[0] ?? "")
+      } catch (error) {
+        console.error("Error loading category definitions:", error)
+      }
+    }
+    loadDefinitions()
+  }, [])
+
+  const selectedDefinition = definitions[selected] ?? EMPTY_CATEGORY_DEFINITION
+
+  const updateSelected = (changes: Partial<typeof selectedDefinition>) => {
+    setDefinitions({
+      ...definitions,
+      [selected]: { ...selectedDefinition, ...changes }
+    })
+    setSaveStatus("")
+  }
+
+  const handleSave = async () => {
+    try {
+      const cleanDefinitions = Object.fromEntries(
+        Object.entries(definitions).map(([category, definition]) => [
+          category,
+          normalizeCategoryDefinition(definition)
+        ])
+      )
+      await storage.set(CATEGORY_DEFINITIONS_STORAGE_KEY, cleanDefinitions)
+      setDefinitions(cleanDefinitions)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving category definitions:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  const handleReset = () => {
+    setDefinitions(DEFAULT_CATEGORY_DEFINITIONS)
+    setSaveStatus("")
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Category Definitions
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Describe what each category means so the AI can tell, for example,
+          engagement bait from an honest question. Categories are added in the
+          extension popup.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {categories.map((category) => (
+          <button
+            key={category}
+            className={`rounded-full px-3 py-1 text-sm ${
+              category === selected
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted"
+            }`}
+            onClick={() => setSelected(category)}>
+            {category}
+            {!definitions[category]?.description && " *"}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        * No description yet; the AI will guess from the name.
+      </p>
+
+      {selected && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              className="block text-sm font-medium text-foreground mb-2"
+              htmlFor="definition-description">
+              Description
+            </label>
+            <textarea
+              id="definition-description"
+              className={textareaClassName}
+              rows={4}
+              placeholder="Posts that ask readers to like, comment or share in exchange for something."
+              value={selectedDefinition.description}
+              onChange={(e) => updateSelected({ description: e.target.value })}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-sm font-medium text-foreground mb-2"
+              htmlFor="definition-examples">
+              Example phrases
+            </label>
+            <textarea
+              id="definition-examples"
+              className={textareaClassName}
+              rows={4}
+              placeholder={'Comment "YES" for the guide\nAgree?'}
+              value={selectedDefinition.examples.join("\n")}
+              onChange={(e) =>
+                updateSelected({ examples: e.target.value.split("\n") })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button onClick={handleSave}>Save Definitions</Button>
+          <Button onClick={handleReset} variant="outline">
+            Reset to Defaults
+          </Button>
+        </div>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Definitions saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving definitions</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  FEEDBACK_STORAGE_KEY,
+  loadFeedback,
+  MAX_FEEDBACK_EXAMPLES,
+  removeFeedback,
+  type FeedbackExample
+} from "~lib/feedback"
+
+import { Button } from "../components/ui/button"
+
+const storage = new Storage({ area: "local" })
+
+// Corrections listed before "Show all"
+const PREVIEW_COUNT = 10
+
+/**
+ * Lists the posts the user confirmed or corrected, which the categorizer
+ * uses as examples.
+ */
+export function FeedbackExamples() {
+  const [examples, setExamples] = useState<FeedbackExample[]>([])
+  const [showAll, setShowAll] = useState(false)
+
+  useEffect(() => {
+    loadFeedback(storage)
+      .then(setExamples)
+      .catch((error) => console.error("Error loading feedback:", error))
+
+    const callbackMap = {
+      [FEEDBACK_STORAGE_KEY]: (change) => setExamples(change.newValue ?? [])
+    }
+    storage.watch(callbackMap)
+    return () => {
+      storage.unwatch(callbackMap)
+    }
+  }, [])
+
+  const remove = async (postId?: string) => {
+    try {
+      await removeFeedback(storage, postId)
+      setExamples(await loadFeedback(storage))
+    } catch (error) {
+      console.error("Error removing feedback:", error)
+    }
+  }
+
+  const visible = showAll ? examples : examples.slice(0, PREVIEW_COUNT)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="block text-sm font-medium text-foreground">
+            Your Corrections
+          </span>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Posts you marked as correct or wrongly categorized. Similar ones are
+            shown to the AI as examples. {examples.length} of{" "}
+            {MAX_FEEDBACK_EXAMPLES} kept.
+          </p>
+        </div>
+        <Button
+          onClick={() => remove()}
+          variant="outline"
+          disabled={examples.length === 0}>
+          Clear All
+        </Button>
+      </div>
+
+      {visible.length > 0 && (
+        <ul className="space-y-3">
+          {visible.map((example) => (
+            <li
+              key={example.postId}
+              className="group flex items-start justify-between gap-4 rounded-md bg-muted px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{example.text}</p>
+                <p className="text-xs text-muted-foreground">
+                  {example.confirmed.length > 0 &&
+                    `Is ${example.confirmed.join(", ")}`}
+                  {example.confirmed.length > 0 &&
+                    example.rejected.length > 0 &&
+                    " · "}
+                  {example.rejected.length > 0 &&
+                    `Not ${example.rejected.join(", ")}`}
+                </p>
+              </div>
+              <button
+                onClick={() => remove(example.postId)}
+                className="opacity-0 group-hover:opacity-100 transition-opacity">
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {examples.length > PREVIEW_COUNT && (
+        <Button onClick={() => setShowAll(!showAll)} variant="outline">
+          {showAll ? "Show Fewer" : `Show All ${examples.length}`}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+import { CheckCircle2, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  FILTER_RULES_STORAGE_KEY,
+  loadFilterRules,
+  RULE_ACTIONS,
+  type FilterRule,
+  type RuleAction
+} from "~lib/filter-rules"
+import { validateRuleExpression } from "~lib/rule-expression"
+
+import { Button } from "../components/ui/button"
+import { Input } from "../components/ui/input"
+
+const storage = new Storage()
+
+const EXAMPLE_RULES = [
+  'POLITICS AND NOT author:"My Senator"',
+  "PROMOTIONAL AND platform:linkedin",
+  'keyword:"link in bio" OR tone:ENGAGEMENT_BAIT >= 0.8',
+  "AI AND ai-generated >= 0.7"
+]
+
+/**
+ * Editor for filter rules, which combine categories, authors, keywords,
+ * platform and scores with AND, OR and NOT. Each rule is validated as it
+ * is typed.
+ */
+export function FilterRulesEditor() {
+  const [rules, setRules] = useState<FilterRule[]>([])
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    loadFilterRules(storage)
+      .then(setRules)
+      .catch((error) => console.error("Error loading filter rules:", error))
+  }, [])
+
+  const errors = Object.fromEntries(
+    rules.map((rule) => [rule.id, validateRuleExpression(rule.expression)])
+  )
+  const hasErrors = Object.values(errors).some(Boolean)
+
+  const updateRule = (id: string, changes: Partial<FilterRule>) => {
+    setRules(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule))
+    )
+    setSaveStatus("")
+  }
+
+  const addRule = () => {
+    setRules([
+      ...rules,
+      {
+        id: `rule-${Date.now()}`,
+        expression: "",
+        action: "block",
+        enabled: true
+      }
+    ])
+    setSaveStatus("")
+  }
+
+  const removeRule = (id: string) => {
+    setRules(rules.filter((rule) => rule.id !== id))
+    setSaveStatus("")
+  }
+
+  const handleSave = async () => {
+    try {
+      const cleanRules = rules.map((rule) => ({
+        ...rule,
+        expression: rule.expression.trim()
+      }))
+      await storage.set(FILTER_RULES_STORAGE_KEY, cleanRules)
+      setRules(cleanRules)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving filter rules:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Filter Rules
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Combine categories and <code>author:</code>, <code>keyword:</code> and{" "}
+          <code>platform:</code> conditions with AND, OR, NOT and parentheses,
+          and compare scores such as <code>POLITICS &gt;= 0.8</code>,{" "}
+          <code>tone:OUTRAGE &gt;= 0.6</code> or{" "}
+          <code>ai-generated &gt;= 0.8</code>. Quote values with spaces. Rules
+          apply on top of the include and exclude lists; when several match,
+          block wins over blur, and blur over highlight.
+        </p>
+      </div>
+
+      {rules.length === 0 && (
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>No rules yet. For example:</p>
+          {EXAMPLE_RULES.map((example) => (
+            <p key={example} className="font-mono text-xs">
+              {example}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {rules.map((rule) => (
+          <div key={rule.id} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) =>
+                  updateRule(rule.id, { enabled: e.target.checked })
+                }
+                title="Enabled"
+              />
+              <Input
+                className="flex-1 font-mono"
+                value={rule.expression}
+                onChange={(e) =>
+                  updateRule(rule.id, { expression: e.target.value })
+                }
+                placeholder={EXAMPLE_RULES[0]}
+              />
+              <select
+                className="h-10 rounded-md border border-gray-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                value={rule.action}
+                onChange={(e) =>
+                  updateRule(rule.id, { action: e.target.value as RuleAction })
+                }>
+                {RULE_ACTIONS.map(({ id, label, description }) => (
+                  <option key={id} value={id} title={description}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeRule(rule.id)}
+                className="text-muted-foreground hover:text-foreground">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {errors[rule.id] && (
+              <p className="text-sm text-destructive">{errors[rule.id]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={hasErrors}>
+            Save Rules
+          </Button>
+          <Button onClick={addRule} variant="outline">
+            Add Rule
+          </Button>
+        </div>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Rules saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving rules</span>
+        )}
+      </div>
+    </div>
+  )
+}
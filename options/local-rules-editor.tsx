@@ -0,0 +1,227 @@
+import { CheckCircle2, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  DEFAULT_LOCAL_RULES,
+  EMPTY_CATEGORY_RULES,
+  loadLocalRules,
+  LOCAL_RULES_STORAGE_KEY,
+  normalizeCategoryRules,
+  validatePattern,
+  type CategoryRules,
+  type LocalRules
+} from "~lib/local-rules"
+
+import { Button } from "../components/ui/button"
+import { Input } from "../components/ui/input"
+
+const storage = new Storage()
+
+const RULE_FIELDS: {
+  field: keyof CategoryRules
+  label: string
+  placeholder: string
+}[] = [
+  { field: "keywords", label: "Keywords", placeholder: "webinar\ngiveaway" },
+  {
+    field: "phrases",
+    label: "Phrases",
+    placeholder: "humbled to announce\nlink in bio"
+  },
+  { field: "patterns", label: "Regex patterns", placeholder: "\\d+% off" },
+  { field: "authors", label: "Authors", placeholder: "The White House" }
+]
+
+const toLines = (values: string[]): string => values.join("\n")
+const fromLines = (value: string): string[] => value.split("\n")
+
+/**
+ * Editor for the keyword, phrase, regex and author rules used by the local
+ * classifier, which runs without an API key and as a cheap first pass.
+ */
+export function LocalRulesEditor() {
+  const [rules, setRules] = useState<LocalRules>({})
+  const [selected, setSelected] = useState<string>("")
+  const [newCategory, setNewCategory] = useState("")
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const savedRules = await loadLocalRules(storage)
+        setRules(savedRules)
+        setSelected(Object.keys(savedRules)[0] ?? "")
+      } catch (error) {
+        console.error("Error loading local rules:", error)
+      }
+    }
+    loadRules()
+  }, [])
+
+  const selectedRules = rules[selected] ?? EMPTY_CATEGORY_RULES
+  const patternErrors = selectedRules.patterns
+    .filter((pattern) => pattern.trim())
+    .map((pattern) => ({ pattern, error: validatePattern(pattern) }))
+    .filter(({ error }) => error)
+  const hasErrors = Object.values(rules).some((categoryRules) =>
+    categoryRules.patterns.some(
+      (pattern) => pattern.trim() && validatePattern(pattern)
+    )
+  )
+
+  const updateField = (field: keyof CategoryRules, value: string) => {
+    setRules({
+      ...rules,
+      [selected]: { ...selectedRules, [field]: fromLines(value) }
+    })
+    setSaveStatus("")
+  }
+
+  const addCategory = () => {
+    const category = newCategory.trim().toUpperCase()
+    if (!category) return
+
+    if (!rules[category]) {
+      setRules({ ...rules, [category]: { ...EMPTY_CATEGORY_RULES } })
+    }
+    setSelected(category)
+    setNewCategory("")
+  }
+
+  const removeCategory = (category: string) => {
+    const { [category]: _removed, ...rest } = rules
+    setRules(rest)
+    if (selected === category) {
+      setSelected(Object.keys(rest)[0] ?? "")
+    }
+    setSaveStatus("")
+  }
+
+  const handleSave = async () => {
+    try {
+      const cleanRules = Object.fromEntries(
+        Object.entries(rules).map(([category, categoryRules]) => [
+          category,
+          normalizeCategoryRules(categoryRules)
+        ])
+      )
+      await storage.set(LOCAL_RULES_STORAGE_KEY, cleanRules)
+      setRules(cleanRules)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving local rules:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  const handleReset = () => {
+    setRules(DEFAULT_LOCAL_RULES)
+    setSelected(Object.keys(DEFAULT_LOCAL_RULES)[0])
+    setSaveStatus("")
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Local Rules
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Matched on your device before any AI request. Used on their own when
+          no API key is set. One entry per line; matching ignores case.
+        </p>
+      </div>
+
+      {/* Categories with rules */}
+      <div className="flex flex-wrap gap-2">
+        {Object.keys(rules).map((category) => (
+          <div
+            key={category}
+            className={`group flex items-center gap-1 rounded-full px-3 py-1 text-sm cursor-pointer ${
+              category === selected
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted"
+            }`}
+            onClick={() => setSelected(category)}>
+            {category}
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                removeCategory(category)
+              }}
+              className="opacity-0 group-hover:opacity-100 transition-opacity">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <Input
+        value={newCategory}
+        onChange={(e) => setNewCategory(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            addCategory()
+          }
+        }}
+        placeholder="Add a category and press Enter..."
+      />
+
+      {selected && (
+        <div className="grid grid-cols-2 gap-4">
+          {RULE_FIELDS.map(({ field, label, placeholder }) => (
+            <div key={field}>
+              <label
+                className="block text-sm font-medium text-foreground mb-2"
+                htmlFor={`rules-${field}`}>
+                {label}
+              </label>
+              <textarea
+                id={`rules-${field}`}
+                className="w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                rows={5}
+                placeholder={placeholder}
+                value={toLines(selectedRules[field])}
+                onChange={(e) => updateField(field, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {patternErrors.length > 0 && (
+        <div className="text-sm text-destructive space-y-1">
+          {patternErrors.map(({ pattern, error }) => (
+            <p key={pattern}>
+              /{pattern}/: {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={hasErrors}>
+            Save Rules
+          </Button>
+          <Button onClick={handleReset} variant="outline">
+            Reset to Defaults
+          </Button>
+        </div>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Rules saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving rules</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+import { CheckCircle2, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  loadMuteList,
+  MUTE_ENTRY_TYPES,
+  MUTE_LIST_STORAGE_KEY,
+  validateMuteEntry,
+  type MuteEntry,
+  type MuteEntryType
+} from "~lib/mute-list"
+
+import { Button } from "../components/ui/button"
+import { Input } from "../components/ui/input"
+
+const storage = new Storage()
+
+const PLACEHOLDERS: Record<MuteEntryType, string> = {
+  word: "crypto",
+  phrase: "I'm humbled to announce",
+  regex: "\\b(agree|thoughts)\\?$"
+}
+
+/**
+ * Editor for the mute list of words, phrases and regular expressions that
+ * hide a post without asking the AI. Each entry is validated as it is
+ * typed.
+ */
+export function MuteListEditor() {
+  const [entries, setEntries] = useState<MuteEntry[]>([])
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    loadMuteList(storage)
+      .then(setEntries)
+      .catch((error) => console.error("Error loading mute list:", error))
+  }, [])
+
+  const errors = Object.fromEntries(
+    entries.map((entry) => [entry.id, validateMuteEntry(entry)])
+  )
+  const hasErrors = Object.values(errors).some(Boolean)
+
+  const updateEntry = (id: string, changes: Partial<MuteEntry>) => {
+    setEntries(
+      entries.map((entry) =>
+        entry.id === id ? { ...entry, ...changes } : entry
+      )
+    )
+    setSaveStatus("")
+  }
+
+  const addEntry = () => {
+    setEntries([
+      ...entries,
+      {
+        id: `mute-${Date.now()}`,
+        type: "word",
+        value: "",
+        caseSensitive: false,
+        wholeWord: true
+      }
+    ])
+    setSaveStatus("")
+  }
+
+  const removeEntry = (id: string) => {
+    setEntries(entries.filter((entry) => entry.id !== id))
+    setSaveStatus("")
+  }
+
+  const handleSave = async () => {
+    try {
+      const cleanEntries = entries.map((entry) => ({
+        ...entry,
+        value: entry.type === "regex" ? entry.value : entry.value.trim()
+      }))
+      await storage.set(MUTE_LIST_STORAGE_KEY, cleanEntries)
+      setEntries(cleanEntries)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving mute list:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Mute List
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Posts containing any of these terms are hidden before any AI request.
+          Words and phrases match literally; regexes use JavaScript syntax.
+          Whole word skips matches inside longer words, so "art" does not mute
+          "start".
+        </p>
+      </div>
+
+      {entries.length === 0 && (
+        <p className="text-sm text-muted-foreground">No muted terms yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {entries.map((entry) => (
+          <div key={entry.id} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <select
+                className="h-10 rounded-md border border-gray-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                value={entry.type}
+                onChange={(e) =>
+                  updateEntry(entry.id, {
+                    type: e.target.value as MuteEntryType
+                  })
+                }>
+                {MUTE_ENTRY_TYPES.map(({ id, label }) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <Input
+                className={`flex-1 ${entry.type === "regex" ? "font-mono" : ""}`}
+                value={entry.value}
+                onChange={(e) =>
+                  updateEntry(entry.id, { value: e.target.value })
+                }
+                placeholder={PLACEHOLDERS[entry.type]}
+              />
+              <label className="flex items-center gap-1 text-sm text-muted-foreground whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={entry.caseSensitive}
+                  onChange={(e) =>
+                    updateEntry(entry.id, { caseSensitive: e.target.checked })
+                  }
+                />
+                Match case
+              </label>
+              <label className="flex items-center gap-1 text-sm text-muted-foreground whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={entry.wholeWord}
+                  onChange={(e) =>
+                    updateEntry(entry.id, { wholeWord: e.target.checked })
+                  }
+                />
+                Whole word
+              </label>
+              <button
+                onClick={() => removeEntry(entry.id)}
+                className="text-muted-foreground hover:text-foreground">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {errors[entry.id] && (
+              <p className="text-sm text-destructive">{errors[entry.id]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={hasErrors}>
+            Save Mute List
+          </Button>
+          <Button onClick={addEntry} variant="outline">
+            Add Term
+          </Button>
+        </div>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Mute list saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving mute list</span>
+        )}
+      </div>
+    </div>
+  )
+}
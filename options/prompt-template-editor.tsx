@@ -0,0 +1,212 @@
+import { CheckCircle2 } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import { buildCategorizationPrompt } from "~background/categorizer/prompt"
+import {
+  loadCategoryDefinitions,
+  type CategoryDefinitions
+} from "~lib/category-definitions"
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  loadPromptTemplate,
+  POST_PLACEHOLDERS,
+  savePromptTemplate,
+  SYSTEM_PLACEHOLDERS,
+  validatePromptTemplate
+} from "~lib/prompt-template"
+
+import { Button } from "../components/ui/button"
+
+const storage = new Storage()
+
+// Shown in the preview so the rendered prompt looks like a real request
+const SAMPLE_POSTS = [
+  {
+    id: "sample-1",
+    authorName: "Jane Doe",
+    text: "I'm humbled to announce that I've joined Acme as Head of Growth! Link in comments."
+  },
+  {
+    id: "sample-2",
+    text: "Three lessons from shipping our first on-device model this quarter..."
+  }
+]
+
+const textareaClassName =
+  "w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+
+/**
+ * Editor for the categorization prompt template, with a live preview of
+ * the prompt that is sent to the AI provider.
+ */
+export function PromptTemplateEditor() {
+  const [system, setSystem] = useState(DEFAULT_PROMPT_TEMPLATE.system)
+  const [post, setPost] = useState(DEFAULT_PROMPT_TEMPLATE.post)
+  const [version, setVersion] = useState(0)
+  const [userCategories, setUserCategories] = useState({
+    include: [],
+    exclude: []
+  })
+  const [definitions, setDefinitions] = useState<CategoryDefinitions>({})
+  const [showPreview, setShowPreview] = useState(false)
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    const loadTemplate = async () => {
+      try {
+        const template = await loadPromptTemplate(storage)
+        setSystem(template.system)
+        setPost(template.post)
+        setVersion(template.version)
+
+        const savedCategories = await storage.get<{
+          include: string[]
+          exclude: string[]
+        }>("user-categories")
+        if (savedCategories) {
+          setUserCategories(savedCategories)
+        }
+        setDefinitions(await loadCategoryDefinitions(storage))
+      } catch (error) {
+        console.error("Error loading prompt template:", error)
+      }
+    }
+    loadTemplate()
+  }, [])
+
+  const errors = validatePromptTemplate({ system, post })
+  const isDefault =
+    system === DEFAULT_PROMPT_TEMPLATE.system &&
+    post === DEFAULT_PROMPT_TEMPLATE.post
+
+  const save = async (template: { system: string; post: string }) => {
+    try {
+      const saved = await savePromptTemplate(storage, template)
+      setSystem(saved.system)
+      setPost(saved.post)
+      setVersion(saved.version)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving prompt template:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Prompt Template
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Instructions sent to the AI provider with every batch of posts. The
+          JSON response format is always appended. Version {version}.
+        </p>
+      </div>
+
+      <div>
+        <label
+          className="block text-sm font-medium text-foreground mb-2"
+          htmlFor="prompt-system">
+          Prompt
+        </label>
+        <textarea
+          id="prompt-system"
+          className={textareaClassName}
+          rows={14}
+          value={system}
+          onChange={(e) => {
+            setSystem(e.target.value)
+            setSaveStatus("")
+          }}
+        />
+        <p className="mt-2 text-xs text-muted-foreground">
+          {SYSTEM_PLACEHOLDERS.map(({ name, description }) => (
+            <span key={name} className="mr-3">
+              <code>{`{{${name}}}`}</code> {description}
+            </span>
+          ))}
+        </p>
+      </div>
+
+      <div>
+        <label
+          className="block text-sm font-medium text-foreground mb-2"
+          htmlFor="prompt-post">
+          Post Template
+        </label>
+        <textarea
+          id="prompt-post"
+          className={textareaClassName}
+          rows={5}
+          value={post}
+          onChange={(e) => {
+            setPost(e.target.value)
+            setSaveStatus("")
+          }}
+        />
+        <p className="mt-2 text-xs text-muted-foreground">
+          {POST_PLACEHOLDERS.map(({ name, description }) => (
+            <span key={name} className="mr-3">
+              <code>{`{{${name}}}`}</code> {description}
+            </span>
+          ))}
+        </p>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-destructive space-y-1">
+          {errors.map((error) => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+
+      {showPreview && (
+        <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+          {buildCategorizationPrompt(
+            SAMPLE_POSTS,
+            SAMPLE_POSTS.map((_, index) => `p${index + 1}`),
+            userCategories,
+            { system, post, version },
+            definitions
+          )}
+        </pre>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button
+            onClick={() => save({ system, post })}
+            disabled={errors.length > 0}>
+            Save Template
+          </Button>
+          <Button
+            onClick={() => setShowPreview(!showPreview)}
+            variant="outline">
+            {showPreview ? "Hide Preview" : "Preview"}
+          </Button>
+          <Button
+            onClick={() => save(DEFAULT_PROMPT_TEMPLATE)}
+            variant="outline"
+            disabled={isDefault}>
+            Reset to Default
+          </Button>
+        </div>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Template saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving template</span>
+        )}
+      </div>
+    </div>
+  )
+}
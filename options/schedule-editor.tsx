@@ -0,0 +1,419 @@
+import { CheckCircle2, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import { FILTER_MODES } from "~lib/filter-mode"
+import {
+  applyProfile,
+  loadActiveProfileId,
+  loadCurrentSettings,
+  loadProfiles,
+  PROFILES_STORAGE_KEY,
+  type CategoryLists,
+  type FilterProfile
+} from "~lib/profiles"
+import {
+  DEFAULT_SCHEDULE,
+  loadSchedule,
+  SCHEDULE_STORAGE_KEY,
+  WEEKDAYS,
+  type Schedule,
+  type ScheduleSlot
+} from "~lib/schedule"
+
+import { Button } from "../components/ui/button"
+import { Input } from "../components/ui/input"
+
+const storage = new Storage()
+const profileStorage = new Storage({ area: "local" })
+
+const SELECT_CLASS_NAME =
+  "h-10 rounded-md border border-gray-200 bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+
+const toList = (values: string[]): string => values.join(", ")
+const fromList = (value: string): string[] =>
+  value.split(",").map((item) => item.trimStart())
+
+const plural = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`
+
+/**
+ * Lists the settings besides categories a profile holds.
+ * @param profile The profile
+ * @returns E.g. "Also sets include mode, score limits, 2 muted terms"
+ */
+const describeSettings = (profile: FilterProfile): string => {
+  const parts = [
+    profile.filterMode &&
+      `${FILTER_MODES.find(({ id }) => id === profile.filterMode)?.label.toLowerCase()} mode`,
+    profile.thresholds && "score limits",
+    profile.muteList && plural(profile.muteList.length, "muted term"),
+    profile.filterRules && plural(profile.filterRules.length, "rule")
+  ].filter(Boolean)
+  return parts.length > 0
+    ? `Also sets ${parts.join(", ")}`
+    : "Sets categories only; use the current settings to add the rest"
+}
+
+// Everything applying a profile changes, to tell whether an edit needs
+// applying
+const settingsOf = ({ id, name, ...settings }: FilterProfile): string =>
+  JSON.stringify(settings)
+
+/**
+ * Editor for filter profiles and the weekly schedule that switches between
+ * them, e.g. strict filtering during work hours and a lighter profile in
+ * the evening.
+ */
+export function ScheduleEditor() {
+  const [profiles, setProfiles] = useState<FilterProfile[]>([])
+  const [schedule, setSchedule] = useState<Schedule>(DEFAULT_SCHEDULE)
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    Promise.all([loadProfiles(profileStorage), loadSchedule(storage)])
+      .then(([savedProfiles, savedSchedule]) => {
+        setProfiles(savedProfiles)
+        setSchedule(savedSchedule)
+      })
+      .catch((error) => console.error("Error loading schedule:", error))
+  }, [])
+
+  const updateProfile = (id: string, changes: Partial<FilterProfile>) => {
+    setProfiles(
+      profiles.map((profile) =>
+        profile.id === id ? { ...profile, ...changes } : profile
+      )
+    )
+    setSaveStatus("")
+  }
+
+  const updateCategories = (
+    profile: FilterProfile,
+    list: keyof CategoryLists,
+    value: string
+  ) => {
+    updateProfile(profile.id, {
+      categories: { ...profile.categories, [list]: fromList(value) }
+    })
+  }
+
+  const copyCurrentSettings = async (id: string) => {
+    try {
+      updateProfile(id, await loadCurrentSettings(storage))
+    } catch (error) {
+      console.error("Error loading current settings:", error)
+    }
+  }
+
+  const addProfile = () => {
+    setProfiles([
+      ...profiles,
+      {
+        id: `profile-${Date.now()}`,
+        name: "",
+        categories: { include: [], exclude: [] }
+      }
+    ])
+    setSaveStatus("")
+  }
+
+  const removeProfile = (id: string) => {
+    setProfiles(profiles.filter((profile) => profile.id !== id))
+    // Windows for a deleted profile have nothing left to switch to
+    setSchedule({
+      ...schedule,
+      slots: schedule.slots.filter((slot) => slot.profileId !== id),
+      defaultProfileId:
+        schedule.defaultProfileId === id ? null : schedule.defaultProfileId
+    })
+    setSaveStatus("")
+  }
+
+  const updateSlot = (id: string, changes: Partial<ScheduleSlot>) => {
+    setSchedule({
+      ...schedule,
+      slots: schedule.slots.map((slot) =>
+        slot.id === id ? { ...slot, ...changes } : slot
+      )
+    })
+    setSaveStatus("")
+  }
+
+  const toggleDay = (slot: ScheduleSlot, day: number) => {
+    updateSlot(slot.id, {
+      days: slot.days.includes(day)
+        ? slot.days.filter((candidate) => candidate !== day)
+        : [...slot.days, day]
+    })
+  }
+
+  const addSlot = () => {
+    setSchedule({
+      ...schedule,
+      slots: [
+        ...schedule.slots,
+        {
+          id: `slot-${Date.now()}`,
+          profileId: profiles[0]?.id ?? "",
+          days: [1, 2, 3, 4, 5],
+          start: "09:00",
+          end: "17:00"
+        }
+      ]
+    })
+    setSaveStatus("")
+  }
+
+  const removeSlot = (id: string) => {
+    setSchedule({
+      ...schedule,
+      slots: schedule.slots.filter((slot) => slot.id !== id)
+    })
+    setSaveStatus("")
+  }
+
+  const handleSave = async () => {
+    try {
+      const clean = (values: string[]) => [
+        ...new Set(
+          values.map((value) => value.trim().toUpperCase()).filter(Boolean)
+        )
+      ]
+      const cleanProfiles = profiles.map((profile) => ({
+        ...profile,
+        name: profile.name.trim() || "Untitled profile",
+        categories: {
+          include: clean(profile.categories.include),
+          exclude: clean(profile.categories.exclude)
+        }
+      }))
+      const cleanSchedule = {
+        ...schedule,
+        slots: schedule.slots.filter(
+          (slot) => slot.profileId && slot.days.length > 0
+        )
+      }
+      const [savedProfiles, activeProfileId] = await Promise.all([
+        loadProfiles(profileStorage),
+        loadActiveProfileId(storage)
+      ])
+      // Profiles first, so the scheduler never sees a window for a
+      // profile it cannot find
+      await profileStorage.set(PROFILES_STORAGE_KEY, cleanProfiles)
+      await storage.set(SCHEDULE_STORAGE_KEY, cleanSchedule)
+
+      // Edits to the profile in use take effect right away
+      const activeProfile = cleanProfiles.find(
+        ({ id }) => id === activeProfileId
+      )
+      const savedActiveProfile = savedProfiles.find(
+        ({ id }) => id === activeProfileId
+      )
+      if (
+        activeProfile &&
+        (!savedActiveProfile ||
+          settingsOf(activeProfile) !== settingsOf(savedActiveProfile))
+      ) {
+        await applyProfile(storage, activeProfile)
+      }
+      setProfiles(cleanProfiles)
+      setSchedule(cleanSchedule)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving schedule:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Profiles
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          A profile is a set of categories, filter mode, score limits, mute list
+          and rules to switch to as a whole, from the popup or with Alt+Shift+P.
+          Separate categories with commas; use the current settings to capture
+          the rest.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {profiles.map((profile) => (
+          <div
+            key={profile.id}
+            className="space-y-2 rounded-md border border-gray-200 p-4">
+            <div className="flex items-center gap-2">
+              <Input
+                className="flex-1"
+                value={profile.name}
+                onChange={(e) =>
+                  updateProfile(profile.id, { name: e.target.value })
+                }
+                placeholder="Focus hours"
+              />
+              <Button
+                onClick={() => copyCurrentSettings(profile.id)}
+                variant="outline">
+                Use current settings
+              </Button>
+              <button
+                onClick={() => removeProfile(profile.id)}
+                className="text-muted-foreground hover:text-foreground">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {(["include", "exclude"] as const).map((list) => (
+              <div key={list} className="flex items-center gap-2">
+                <span className="w-16 text-sm text-muted-foreground capitalize">
+                  {list}
+                </span>
+                <Input
+                  className="flex-1"
+                  value={toList(profile.categories[list])}
+                  onChange={(e) =>
+                    updateCategories(profile, list, e.target.value)
+                  }
+                  placeholder={list === "exclude" ? "POLITICS, SPORTS" : ""}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {describeSettings(profile)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <input
+            type="checkbox"
+            checked={schedule.enabled}
+            onChange={(e) => {
+              setSchedule({ ...schedule, enabled: e.target.checked })
+              setSaveStatus("")
+            }}
+          />
+          Switch profiles on a schedule
+        </label>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Each window switches to its profile when it starts. A window that ends
+          before it starts runs past midnight, and the first matching window
+          wins when they overlap. A profile picked by hand stays until the next
+          window starts or ends.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {schedule.slots.map((slot) => (
+          <div key={slot.id} className="flex flex-wrap items-center gap-2">
+            <select
+              className={SELECT_CLASS_NAME}
+              value={slot.profileId}
+              onChange={(e) =>
+                updateSlot(slot.id, { profileId: e.target.value })
+              }>
+              <option value="" disabled>
+                Choose a profile
+              </option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name || "Untitled profile"}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-1">
+              {WEEKDAYS.map(({ day, label }) => (
+                <button
+                  key={day}
+                  className={`rounded-md border px-2 py-1 text-xs ${
+                    slot.days.includes(day)
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "text-foreground hover:bg-muted"
+                  }`}
+                  onClick={() => toggleDay(slot, day)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            <Input
+              type="time"
+              className="w-32"
+              value={slot.start}
+              onChange={(e) =>
+                e.target.value && updateSlot(slot.id, { start: e.target.value })
+              }
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-32"
+              value={slot.end}
+              onChange={(e) =>
+                e.target.value && updateSlot(slot.id, { end: e.target.value })
+              }
+            />
+            <button
+              onClick={() => removeSlot(slot.id)}
+              className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">
+          Outside these windows
+        </span>
+        <select
+          className={SELECT_CLASS_NAME}
+          value={schedule.defaultProfileId ?? ""}
+          onChange={(e) => {
+            setSchedule({
+              ...schedule,
+              defaultProfileId: e.target.value || null
+            })
+            setSaveStatus("")
+          }}>
+          <option value="">Keep the current categories</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name || "Untitled profile"}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button onClick={handleSave}>Save Schedule</Button>
+          <Button onClick={addProfile} variant="outline">
+            Add Profile
+          </Button>
+          <Button
+            onClick={addSlot}
+            variant="outline"
+            disabled={profiles.length === 0}>
+            Add Window
+          </Button>
+        </div>
+
+        {saveStatus === "success" && (
+          <div className="flex items-center space-x-2 text-green-600">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>Schedule saved</span>
+          </div>
+        )}
+        {saveStatus === "error" && (
+          <span className="text-destructive">Error saving schedule</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+import { CheckCircle2 } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  getDayKey,
+  loadMonthlyBudget,
+  loadUsageLog,
+  MONTHLY_BUDGET_STORAGE_KEY,
+  sumUsage,
+  USAGE_LOG_STORAGE_KEY,
+  type UsageLog
+} from "~lib/usage"
+
+import { Button } from "../components/ui/button"
+import { Input } from "../components/ui/input"
+
+const storage = new Storage()
+const usageStorage = new Storage({ area: "local" })
+
+// Days shown in the daily breakdown
+const RECENT_DAYS = 7
+
+const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`
+
+/**
+ * Shows token usage and estimated cost per model, and lets the user cap
+ * the monthly spend on AI categorization.
+ */
+export function UsageSummary() {
+  const [log, setLog] = useState<UsageLog>({})
+  const [budget, setBudget] = useState("")
+  const [saveStatus, setSaveStatus] = useState("")
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        setLog(await loadUsageLog(usageStorage))
+        const savedBudget = await loadMonthlyBudget(storage)
+        setBudget(savedBudget > 0 ? String(savedBudget) : "")
+      } catch (error) {
+        console.error("Error loading usage:", error)
+      }
+    }
+    loadUsage()
+
+    const callbackMap = {
+      [USAGE_LOG_STORAGE_KEY]: (change) => setLog(change.newValue ?? {})
+    }
+    usageStorage.watch(callbackMap)
+    return () => {
+      usageStorage.unwatch(callbackMap)
+    }
+  }, [])
+
+  const month = sumUsage(log, getDayKey().slice(0, 7))
+  const budgetValue = Number(budget)
+  const hasBudget = Number.isFinite(budgetValue) && budgetValue > 0
+  const budgetReached = hasBudget && month.cost >= budgetValue
+
+  const recentRows = Object.keys(log)
+    .sort()
+    .reverse()
+    .slice(0, RECENT_DAYS)
+    .flatMap((day) =>
+      Object.entries(log[day]).map(([model, totals]) => ({
+        day,
+        model,
+        ...totals
+      }))
+    )
+
+  const handleSaveBudget = async () => {
+    try {
+      await storage.set(MONTHLY_BUDGET_STORAGE_KEY, hasBudget ? budgetValue : 0)
+      setSaveStatus("success")
+      setTimeout(() => setSaveStatus(""), 3000)
+    } catch (error) {
+      console.error("Error saving budget:", error)
+      setSaveStatus("error")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Usage & Budget
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          This month: {month.requests} requests,{" "}
+          {(month.inputTokens + month.outputTokens).toLocaleString()} tokens,
+          about {formatCost(month.cost)}
+          {hasBudget && ` of your $${budgetValue} budget`}. Costs are estimated
+          from public list prices; self-hosted models count as free.
+        </p>
+        {budgetReached && (
+          <p className="mt-2 text-sm text-destructive">
+            Budget reached. Posts are only checked against cached results and
+            local rules until next month.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label
+          className="block text-sm font-medium text-foreground mb-2"
+          htmlFor="monthly-budget">
+          Monthly Budget (USD)
+        </label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="monthly-budget"
+            type="number"
+            min={0}
+            step={0.5}
+            value={budget}
+            onChange={(e) => {
+              setBudget(e.target.value)
+              setSaveStatus("")
+            }}
+            placeholder="No limit"
+            className="w-40"
+          />
+          <Button onClick={handleSaveBudget} variant="outline">
+            Save Budget
+          </Button>
+          {saveStatus === "success" && (
+            <div className="flex items-center space-x-2 text-green-600">
+              <CheckCircle2 className="h-5 w-5" />
+              <span>Budget saved</span>
+            </div>
+          )}
+          {saveStatus === "error" && (
+            <span className="text-destructive">Error saving budget</span>
+          )}
+        </div>
+      </div>
+
+      {recentRows.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-medium pb-2">Day</th>
+              <th className="font-medium pb-2">Model</th>
+              <th className="font-medium pb-2 text-right">Requests</th>
+              <th className="font-medium pb-2 text-right">Tokens in / out</th>
+              <th className="font-medium pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recentRows.map((row) => (
+              <tr key={`${row.day}-${row.model}`}>
+                <td>{row.day}</td>
+                <td className="font-mono text-xs">{row.model}</td>
+                <td className="text-right">{row.requests}</td>
+                <td className="text-right">
+                  {row.inputTokens.toLocaleString()} /{" "}
+                  {row.outputTokens.toLocaleString()}
+                </td>
+                <td className="text-right">{formatCost(row.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
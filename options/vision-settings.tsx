@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  loadVisionCategories,
+  MAX_IMAGES_PER_POST,
+  VISION_CATEGORIES_STORAGE_KEY
+} from "~lib/vision-settings"
+
+const storage = new Storage()
+
+/**
+ * Lets the user choose which categories also look at post images, since
+ * every image adds to the cost of a request.
+ */
+export function VisionSettings() {
+  const [categories, setCategories] = useState<string[]>([])
+  const [visionCategories, setVisionCategories] = useState<string[]>([])
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const userCategories = await storage.get<{
+          include: string[]
+          exclude: string[]
+        }>("user-categories")
+        setCategories(
+          [
+            ...new Set(
+              [
+                ...(userCategories?.include ?? []),
+                ...(userCategories?.exclude ?? [])
+              ].map((category) => category.toUpperCase())
+            )
+          ].sort()
+        )
+        setVisionCategories(await loadVisionCategories(storage))
+      } catch (error) {
+        console.error("Error loading image settings:", error)
+      }
+    }
+    loadSettings()
+  }, [])
+
+  const toggle = async (category: string) => {
+    const updated = visionCategories.includes(category)
+      ? visionCategories.filter((other) => other !== category)
+      : [...visionCategories, category]
+
+    setVisionCategories(updated)
+    try {
+      await storage.set(VISION_CATEGORIES_STORAGE_KEY, updated)
+    } catch (error) {
+      console.error("Error saving image settings:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="block text-sm font-medium text-foreground">
+          Image Understanding
+        </span>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Send up to {MAX_IMAGES_PER_POST} images per post to the AI for the
+          selected categories, for memes, screenshots and infographics. Needs a
+          vision-capable model and makes each request noticeably more expensive.
+          Alt text is always used.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {categories.length === 0 && (
+          <div className="text-sm text-gray-400 italic">
+            Add categories in the extension popup first
+          </div>
+        )}
+        {categories.map((category) => (
+          <button
+            key={category}
+            className={`rounded-full px-3 py-1 text-sm ${
+              visionCategories.includes(category)
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted"
+            }`}
+            onClick={() => toggle(category)}>
+            {category}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -3,12 +3,19 @@ import { memo, useEffect, useRef, useState } from "react"
 
 import { Storage } from "@plasmohq/storage"
 
+import { isProviderConfigured, loadProviderSettings } from "~lib/llm-settings"
+
 import { Button } from "./components/ui/button"
 import { Input } from "./components/ui/input"
 import { Logo } from "./components/ui/logo"
 import { Switch } from "./components/ui/switch"
 import { useDebounce } from "./hooks/useDebounce"
 import { CategorizeDemo } from "./popup/categorize-demo"
+import { FilterModeSettings } from "./popup/filter-mode-settings"
+import { ProfileSwitcher } from "./popup/profile-switcher"
+import { QueueStatus } from "./popup/queue-status"
+import { ScheduleStatus } from "./popup/schedule-status"
+import { ThresholdSettings } from "./popup/threshold-settings"
 
 import "./style.css"
 
@@ -218,9 +225,11 @@ function IndexPopup() {
         const enabled = await storage.get<boolean>("enabled")
         setEnabled(enabled ?? true) // Default to true if not set
 
-        // Load API key status
-        const apiKey = await storage.get("openai-api-key")
-        setApiKeyStatus(apiKey && apiKey !== "" ? "set" : "not-set")
+        // Load API key status for the active provider
+        const providerSettings = await loadProviderSettings(storage)
+        setApiKeyStatus(
+          isProviderConfigured(providerSettings) ? "set" : "not-set"
+        )
 
         // Load categories with extra verification
         try {
@@ -296,8 +305,10 @@ function IndexPopup() {
           const enabled = await storage.get<boolean>("enabled")
           setEnabled(enabled ?? true)
 
-          const apiKey = await storage.get("openai-api-key")
-          setApiKeyStatus(apiKey && apiKey !== "" ? "set" : "not-set")
+          const providerSettings = await loadProviderSettings(storage)
+          setApiKeyStatus(
+            isProviderConfigured(providerSettings) ? "set" : "not-set"
+          )
         } catch (e) {
           console.error("Error loading additional state:", e)
         }
@@ -781,7 +792,16 @@ function IndexPopup() {
               />
             </div>
 
+            {/* Filter profiles and the schedule that switches them */}
+            <ProfileSwitcher onSwitch={loadState} />
+            <ScheduleStatus />
+
+            {/* Background request queue */}
+            <QueueStatus />
+
             {/* Category Lists */}
+            <FilterModeSettings />
+
             <CategoryList
               type="include"
               title="Include Categories"
@@ -803,6 +823,13 @@ function IndexPopup() {
               onAdd={(value) => addCategory("exclude", value)}
               onRemove={(category) => removeCategory("exclude", category)}
             />
+
+            <ThresholdSettings
+              userCategories={{
+                include: Array.from(categories.include),
+                exclude: Array.from(categories.exclude)
+              }}
+            />
           </>
         ) : (
           // Demo Tab Content
@@ -1,5 +1,7 @@
 import React, { useState } from "react"
 
+import { sendMessage } from "~lib/messages"
+
 /**
  * A simple demo component for the popup to demonstrate the new messaging system
  */
@@ -23,34 +25,27 @@ export function CategorizeDemo() {
 
     try {
       // Send message to background script
-      const response = await chrome.runtime.sendMessage({
-        type: "categorize-post",
-        data: {
-          text,
-          authorName: author,
-          userCategories: {
-            include: [],
-            exclude: ["POLITICS", "SPORTS", "PROMOTIONAL"]
-          }
+      const response = await sendMessage("categorize-post", {
+        text,
+        authorName: author,
+        userCategories: {
+          include: [],
+          exclude: ["POLITICS", "SPORTS", "PROMOTIONAL"]
         }
       })
 
-      // Check if we got a valid response
-      if (!response || !response.categories) {
-        throw new Error("Invalid response from background script")
+      // Demo requests carry no request id, so they are never cancelled
+      if ("cancelled" in response) {
+        throw new Error("Categorization was cancelled")
       }
 
       // Set the result
       setResult(response)
 
       // Also relay the result to content scripts
-      await chrome.runtime.sendMessage({
-        type: "relay-to-content",
+      await sendMessage("relay-to-content", {
         action: "categorization-result",
-        data: {
-          postHash: `demo-${Date.now()}`,
-          ...response
-        }
+        data: { ...response, postHash: `demo-${Date.now()}` }
       })
     } catch (error) {
       console.error("Error categorizing post:", error)
@@ -64,15 +59,18 @@ export function CategorizeDemo() {
   const handleTriggerUpdate = async () => {
     try {
       // Send message to background script to relay to content scripts
-      await chrome.runtime.sendMessage({
-        type: "relay-to-content",
+      const { delivered, failed } = await sendMessage("relay-to-content", {
         action: "category-update",
         data: {
           timestamp: Date.now()
         }
       })
 
-      alert("Category update triggered successfully!")
+      alert(
+        `Category update delivered to ${delivered.length} tab(s)${
+          failed.length > 0 ? `, ${failed.length} did not respond` : ""
+        }`
+      )
     } catch (error) {
       console.error("Error triggering category update:", error)
       setError(`Error: ${error.message || "Unknown error"}`)
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  DEFAULT_FILTER_MODE,
+  FILTER_MODE_STORAGE_KEY,
+  FILTER_MODES,
+  loadFilterMode,
+  type FilterMode
+} from "~lib/filter-mode"
+
+const storage = new Storage()
+
+/**
+ * Chooses whether the include list, the exclude list or both decide which
+ * posts are hidden.
+ */
+export function FilterModeSettings() {
+  const [mode, setMode] = useState<FilterMode>(DEFAULT_FILTER_MODE)
+
+  useEffect(() => {
+    loadFilterMode(storage)
+      .then(setMode)
+      .catch((error) =>
+        console.error("[Filter Mode] Error loading filter mode:", error)
+      )
+  }, [])
+
+  const changeMode = (newMode: FilterMode) => {
+    setMode(newMode)
+    storage
+      .set(FILTER_MODE_STORAGE_KEY, newMode)
+      .catch((error) =>
+        console.error("[Filter Mode] Error saving filter mode:", error)
+      )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="text-sm font-medium text-foreground">Filter Mode</span>
+        <p className="text-xs text-muted-foreground">
+          {FILTER_MODES.find(({ id }) => id === mode)?.description}
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {FILTER_MODES.map(({ id, label }) => (
+          <button
+            key={id}
+            className={`flex-1 rounded-md border px-2 py-1 text-xs ${
+              mode === id
+                ? "border-primary bg-primary text-primary-foreground"
+                : "text-foreground hover:bg-muted"
+            }`}
+            onClick={() => changeMode(id)}>
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
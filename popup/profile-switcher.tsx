@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  ACTIVE_PROFILE_STORAGE_KEY,
+  loadActiveProfileId,
+  loadProfiles,
+  switchProfile,
+  type FilterProfile
+} from "~lib/profiles"
+
+const storage = new Storage()
+const profileStorage = new Storage({ area: "local" })
+
+interface ProfileSwitcherProps {
+  // Called once another profile's settings are in use
+  onSwitch: () => void
+}
+
+/**
+ * Switches between the named filter profiles. Hidden until a profile has
+ * been created on the options page.
+ */
+export function ProfileSwitcher({ onSwitch }: ProfileSwitcherProps) {
+  const [profiles, setProfiles] = useState<FilterProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [isSwitching, setIsSwitching] = useState(false)
+
+  useEffect(() => {
+    Promise.all([loadProfiles(profileStorage), loadActiveProfileId(storage)])
+      .then(([savedProfiles, savedActiveProfileId]) => {
+        setProfiles(savedProfiles)
+        setActiveProfileId(savedActiveProfileId)
+      })
+      .catch((error) =>
+        console.error("[Profiles] Error loading profiles:", error)
+      )
+
+    // The schedule or the keyboard shortcut may switch while the popup is
+    // open, too
+    const callbackMap = {
+      [ACTIVE_PROFILE_STORAGE_KEY]: ({ newValue }) => {
+        setActiveProfileId(typeof newValue === "string" ? newValue : null)
+        onSwitch()
+      }
+    }
+    storage.watch(callbackMap)
+    return () => {
+      storage.unwatch(callbackMap)
+    }
+  }, [])
+
+  const changeProfile = async (profileId: string) => {
+    setIsSwitching(true)
+    try {
+      await switchProfile(storage, profileStorage, profileId)
+    } catch (error) {
+      console.error("[Profiles] Error switching profile:", error)
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  if (profiles.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="text-sm font-medium text-foreground">Profile</span>
+        <p className="text-xs text-muted-foreground">
+          Changes below stay with the active profile when you switch.
+          Alt+Shift+P switches to the next one.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {profiles.map(({ id, name }) => (
+          <button
+            key={id}
+            className={`flex-1 rounded-md border px-2 py-1 text-xs ${
+              activeProfileId === id
+                ? "border-primary bg-primary text-primary-foreground"
+                : "text-foreground hover:bg-muted"
+            }`}
+            disabled={isSwitching || activeProfileId === id}
+            onClick={() => changeProfile(id)}>
+            {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react"
+
+import type { QueueState } from "~background/request-queue"
+import { sendMessage } from "~lib/messages"
+
+// How often to refresh the queue snapshot while the popup is open
+const POLL_INTERVAL_MS = 1000
+
+/**
+ * Shows how many categorization requests are waiting in the background
+ * queue and whether the AI provider is currently rate limiting us.
+ */
+export function QueueStatus() {
+  const [state, setState] = useState<QueueState | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadState = async () => {
+      try {
+        const queueState = await sendMessage("get-queue-state", {})
+        if (!cancelled) {
+          setState(queueState)
+        }
+      } catch (error) {
+        console.error("[Queue] Error loading queue state:", error)
+      }
+    }
+
+    loadState()
+    const interval = setInterval(loadState, POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [])
+
+  if (!state || state.status === "idle") {
+    return null
+  }
+
+  const waiting = state.queued + state.retrying
+
+  return (
+    <div
+      className={`rounded-md px-3 py-2 text-xs ${
+        state.status === "rate-limited"
+          ? "bg-amber-50 text-amber-800"
+          : "bg-muted text-muted-foreground"
+      }`}>
+      {state.status === "rate-limited" && state.rateLimitedUntil
+        ? `Rate limited by AI provider - resuming in ${Math.ceil(
+            (state.rateLimitedUntil - Date.now()) / 1000
+          )}s`
+        : "Categorizing posts"}
+      {` · ${state.active} in flight, ${waiting} waiting`}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import { loadProfiles, type FilterProfile } from "~lib/profiles"
+import {
+  SCHEDULE_STATUS_STORAGE_KEY,
+  type ScheduleStatus as ScheduleStatusState
+} from "~lib/schedule"
+
+const statusStorage = new Storage({ area: "local" })
+const profileStorage = new Storage({ area: "local" })
+
+/**
+ * Formats when the schedule next changes, adding the weekday unless the
+ * change is today.
+ * @param at The timestamp of the change
+ * @returns E.g. "17:00" or "Mon 09:00"
+ */
+const formatChangeTime = (at: number): string => {
+  const date = new Date(at)
+  const time = date.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit"
+  })
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { weekday: "short" })} ${time}`
+}
+
+/**
+ * Shows which profile the schedule wants now and when it switches to the
+ * next one.
+ */
+export function ScheduleStatus() {
+  const [status, setStatus] = useState<ScheduleStatusState | null>(null)
+  const [profiles, setProfiles] = useState<FilterProfile[]>([])
+
+  useEffect(() => {
+    Promise.all([
+      statusStorage.get<ScheduleStatusState>(SCHEDULE_STATUS_STORAGE_KEY),
+      loadProfiles(profileStorage)
+    ])
+      .then(([scheduleStatus, savedProfiles]) => {
+        setStatus(scheduleStatus ?? null)
+        setProfiles(savedProfiles)
+      })
+      .catch((error) =>
+        console.error("[Schedule] Error loading schedule status:", error)
+      )
+
+    // The schedule may switch while the popup is open
+    const callbackMap = {
+      [SCHEDULE_STATUS_STORAGE_KEY]: ({ newValue }) =>
+        setStatus(newValue ?? null)
+    }
+    statusStorage.watch(callbackMap)
+    return () => {
+      statusStorage.unwatch(callbackMap)
+    }
+  }, [])
+
+  if (!status) {
+    return null
+  }
+
+  const profileName = (id: string | null) =>
+    profiles.find((profile) => profile.id === id)?.name ?? "Deleted profile"
+
+  let nextChange = " · no upcoming changes"
+  if (status.nextChangeAt) {
+    const at = formatChangeTime(status.nextChangeAt)
+    nextChange = status.nextProfileId
+      ? ` · ${profileName(status.nextProfileId)} from ${at}`
+      : ` · schedule pauses at ${at}`
+  }
+
+  return (
+    <div className="rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+      <span className="font-medium text-foreground">
+        {status.profileId
+          ? `Scheduled: ${profileName(status.profileId)}`
+          : "No scheduled profile"}
+      </span>
+      {nextChange}
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+import { useEffect, useRef, useState } from "react"
+
+import { Storage } from "@plasmohq/storage"
+
+import {
+  DEFAULT_FILTER_MODE,
+  FILTER_MODE_STORAGE_KEY,
+  getActiveCategories,
+  isFilterMode,
+  loadFilterMode,
+  type FilterMode
+} from "~lib/filter-mode"
+import {
+  DEFAULT_THRESHOLDS,
+  loadThresholds,
+  THRESHOLDS_STORAGE_KEY,
+  type BlockThresholds
+} from "~lib/thresholds"
+import { TONE_DIMENSIONS, type ToneDimension } from "~lib/tone"
+
+import { useDebounce } from "../hooks/useDebounce"
+
+const storage = new Storage()
+
+// Starting point when a tone or AI-generated limit is switched on
+const DEFAULT_TONE_LIMIT = 0.7
+
+interface ThresholdSliderProps {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}
+
+function ThresholdSlider({ id, label, value, onChange }: ThresholdSliderProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs">
+        <label htmlFor={id} className="text-foreground">
+          {label}
+        </label>
+        <span className="text-muted-foreground">
+          {Math.round(value * 100)}%
+        </span>
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </div>
+  )
+}
+
+/**
+ * Sliders for how confident the categorizer must be before a post counts
+ * as in a category: covered or marked as filtered for exclude categories,
+ * matched for include categories. Per-category thresholds are offered for
+ * the lists the filter mode uses.
+ */
+export function ThresholdSettings({
+  userCategories
+}: {
+  userCategories: { include: string[]; exclude: string[] }
+}) {
+  const [thresholds, setThresholds] =
+    useState<BlockThresholds>(DEFAULT_THRESHOLDS)
+  const [filterMode, setFilterMode] = useState<FilterMode>(DEFAULT_FILTER_MODE)
+  const [showOverrides, setShowOverrides] = useState(false)
+  // Avoid writing back the values we just loaded
+  const dirty = useRef(false)
+  const debouncedThresholds = useDebounce(thresholds, 500)
+
+  useEffect(() => {
+    Promise.all([loadThresholds(storage), loadFilterMode(storage)])
+      .then(([savedThresholds, savedFilterMode]) => {
+        setThresholds(savedThresholds)
+        setFilterMode(savedFilterMode)
+      })
+      .catch((error) =>
+        console.error("[Thresholds] Error loading thresholds:", error)
+      )
+
+    // The filter mode is changed in the popup, next to these sliders
+    const callbackMap = {
+      [FILTER_MODE_STORAGE_KEY]: ({ newValue }) =>
+        setFilterMode(isFilterMode(newValue) ? newValue : DEFAULT_FILTER_MODE)
+    }
+    storage.watch(callbackMap)
+    return () => {
+      storage.unwatch(callbackMap)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!dirty.current) {
+      return
+    }
+    storage
+      .set(THRESHOLDS_STORAGE_KEY, debouncedThresholds)
+      .catch((error) =>
+        console.error("[Thresholds] Error saving thresholds:", error)
+      )
+  }, [debouncedThresholds])
+
+  const activeCategories = getActiveCategories(userCategories, filterMode)
+  const thresholdCategories = [
+    ...new Set(
+      [...activeCategories.include, ...activeCategories.exclude].map(
+        (category) => category.toUpperCase()
+      )
+    )
+  ]
+
+  const update = (changes: Partial<BlockThresholds>) => {
+    dirty.current = true
+    setThresholds((current) => ({ ...current, ...changes }))
+  }
+
+  const setCategoryThreshold = (category: string, value: number | null) => {
+    const categories = { ...thresholds.categories }
+    if (value === null) {
+      delete categories[category]
+    } else {
+      categories[category] = value
+    }
+    update({ categories })
+  }
+
+  const setToneLimit = (dimension: ToneDimension, value: number | null) => {
+    const tone = { ...thresholds.tone }
+    if (value === null) {
+      delete tone[dimension]
+    } else {
+      tone[dimension] = value
+    }
+    update({ tone })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="text-sm font-medium text-foreground">
+          Blocking Threshold
+        </span>
+        <p className="text-xs text-muted-foreground">
+          How sure the AI must be before hiding a post
+        </p>
+      </div>
+
+      <ThresholdSlider
+        id="threshold-block"
+        label="Hide posts scoring at least"
+        value={thresholds.block}
+        onChange={(block) => update({ block })}
+      />
+      <ThresholdSlider
+        id="threshold-filter"
+        label="Mark as filtered from"
+        value={thresholds.filter}
+        onChange={(filter) => update({ filter })}
+      />
+
+      {thresholdCategories.length > 0 && (
+        <button
+          className="text-xs text-primary hover:underline"
+          onClick={() => setShowOverrides(!showOverrides)}>
+          {showOverrides ? "Hide" : "Show"} per-category thresholds
+        </button>
+      )}
+
+      {showOverrides &&
+        thresholdCategories.map((upperCategory) => {
+          const override = thresholds.categories[upperCategory]
+
+          return (
+            <div key={upperCategory} className="space-y-1">
+              <ThresholdSlider
+                id={`threshold-${upperCategory}`}
+                label={upperCategory}
+                value={override ?? thresholds.block}
+                onChange={(value) => setCategoryThreshold(upperCategory, value)}
+              />
+              {override !== undefined && (
+                <button
+                  className="text-xs text-muted-foreground hover:underline"
+                  onClick={() => setCategoryThreshold(upperCategory, null)}>
+                  Use global threshold
+                </button>
+              )}
+            </div>
+          )
+        })}
+
+      <div className="pt-2">
+        <span className="text-sm font-medium text-foreground">Tone Limits</span>
+        <p className="text-xs text-muted-foreground">
+          Hide posts written in a tone you don't want, whatever their topic
+        </p>
+      </div>
+
+      {TONE_DIMENSIONS.map(({ id, label }) => {
+        const limit = thresholds.tone[id]
+
+        return limit === undefined ? (
+          <button
+            key={id}
+            className="block text-xs text-primary hover:underline"
+            onClick={() => setToneLimit(id, DEFAULT_TONE_LIMIT)}>
+            Limit {label.toLowerCase()}
+          </button>
+        ) : (
+          <div key={id} className="space-y-1">
+            <ThresholdSlider
+              id={`tone-${id}`}
+              label={`Hide ${label.toLowerCase()} from`}
+              value={limit}
+              onChange={(value) => setToneLimit(id, value)}
+            />
+            <button
+              className="text-xs text-muted-foreground hover:underline"
+              onClick={() => setToneLimit(id, null)}>
+              No limit
+            </button>
+          </div>
+        )
+      })}
+
+      <div className="pt-2">
+        <span className="text-sm font-medium text-foreground">
+          AI-Generated Content
+        </span>
+        <p className="text-xs text-muted-foreground">
+          Combines the AI's judgment with style signals such as em-dashes and
+          stock phrases
+        </p>
+      </div>
+
+      {thresholds.aiGenerated === null ? (
+        <button
+          className="block text-xs text-primary hover:underline"
+          onClick={() => update({ aiGenerated: DEFAULT_TONE_LIMIT })}>
+          Hide likely AI-generated posts
+        </button>
+      ) : (
+        <div className="space-y-1">
+          <ThresholdSlider
+            id="threshold-ai-generated"
+            label="Hide likely AI-generated from"
+            value={thresholds.aiGenerated}
+            onChange={(aiGenerated) => update({ aiGenerated })}
+          />
+          <button
+            className="text-xs text-muted-foreground hover:underline"
+            onClick={() => update({ aiGenerated: null })}>
+            Don't hide
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
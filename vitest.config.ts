@@ -0,0 +1,11 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    // Matches the "~*" path in tsconfig.json, e.g. "~lib/tone"
+    alias: [
+      { find: /^~/, replacement: fileURLToPath(new URL("./", import.meta.url)) }
+    ]
+  }
+})